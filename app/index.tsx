@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,9 +10,10 @@ import {
   useColorScheme,
   Modal,
   FlatList,
+  Share,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
-import { File, Paths, Directory } from 'expo-file-system';
+import { File } from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import * as MediaLibrary from 'expo-media-library';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
@@ -20,17 +21,115 @@ import { useTranslation } from 'react-i18next';
 import Colors from '@/constants/Colors';
 import CornerSelector from '@/components/scanner/CornerSelector';
 import ImageProcessor, { ImageProcessorHandle } from '@/components/scanner/ImageProcessor';
-import { generatePdf } from '@/services/pdfService';
+import EnhanceModePicker from '@/components/scanner/EnhanceModePicker';
+import ProcessOptionsPanel from '@/components/scanner/ProcessOptionsPanel';
+import {
+  generateMultiPagePdf,
+  loadPdfOptions,
+  savePdfOptions,
+  DEFAULT_PDF_OPTIONS,
+  type PdfExportOptions,
+  type PdfTextLayer,
+  type PdfMetadata,
+} from '@/services/pdfService';
+import {
+  loadExportProfile,
+  saveExportProfile,
+  exportImage,
+  writeExportFile,
+  writeContactFile,
+  DEFAULT_EXPORT_PROFILE,
+  type ExportProfile,
+  type ExportReport,
+} from '@/services/exportService';
 import { checkAndShowAd } from '@/services/adService';
-import { detectDocument, processImageNative } from '@/modules/document-detection/src';
+import { loadOcrLanguage, saveOcrLanguage, recognizePage } from '@/services/ocrService';
+import { detectDocument, processImageNative, applyEditsNative } from '@/modules/document-detection/src';
 import { SUPPORTED_LANGUAGES, changeLanguage } from '@/i18n';
 import CameraScanner from '@/components/scanner/CameraScanner';
 import ZoomableImage from '@/components/ZoomableImage';
 import ImageEditorPanel from '@/components/ImageEditorPanel';
-import type { ScannerCorners, EnhanceMode, ScanResult } from '@/types';
+import PageStrip from '@/components/PageStrip';
+import CorrectionBanner from '@/components/CorrectionBanner';
+import PdfOptionsModal from '@/components/PdfOptionsModal';
+import ExportProfileModal from '@/components/ExportProfileModal';
+import BusinessCardModal from '@/components/BusinessCardModal';
+import PageTextModal from '@/components/PageTextModal';
+import DocumentList from '@/components/DocumentList';
+import {
+  listDocuments,
+  createDocument,
+  savePage,
+  syncPageOrder,
+  loadDocumentPages,
+  deleteDocument,
+  updateDocumentProperties,
+} from '@/services/libraryService';
+import { formatFileSize, formatTimestamp } from '@/utils/format';
+import {
+  DEFAULT_EDITS,
+  DEFAULT_PROCESS_OPTIONS,
+  createPageId,
+  hasEdits,
+  upsertPages,
+  updatePage,
+  removePage,
+  movePage,
+} from '@/utils/scanSession';
+import { parseExifDate } from '@/utils/imageMetadata';
+import { flatCurves } from '@/utils/pageCurves';
+import { pageAspectRatio } from '@/utils/pageAspect';
+import { cardCorners, idShapeOf, isIdShape } from '@/utils/cardCrop';
+import { parseBusinessCard } from '@/utils/businessCard';
+import { CENTER_GUTTER, splitSpread } from '@/utils/spreadSplit';
+import { pdfPageSources } from '@/utils/pdfLayout';
+import type {
+  ScannerCorners,
+  EnhanceMode,
+  ScanResult,
+  ScanPage,
+  EditParams,
+  LibraryDocument,
+  FilterPreviews,
+  ProcessOptions,
+  ImageEncoding,
+  PageCurves,
+  SpreadGutter,
+  IdSide,
+  CardShape,
+  BusinessCard,
+  OcrLanguage,
+  PageText,
+} from '@/types';
 
 type Step = 'home' | 'camera' | 'crop' | 'preview';
 
+/** Library state of the open session; replaced as a whole when a new session starts */
+interface LibrarySession {
+  documentId: string | null;
+  /** Document title, embedded in saved images and exported PDFs */
+  title: string | null;
+  /** PDF document properties */
+  subject: string;
+  keywords: string;
+  /** Last page state written to disk per page id, to skip unchanged images */
+  saved: Map<string, ScanPage>;
+}
+
+function newLibrarySession(): LibrarySession {
+  return { documentId: null, title: null, subject: '', keywords: '', saved: new Map() };
+}
+
+/** Renders editor adjustments on top of a processed page */
+async function applyPageEdits(
+  processed: ScanResult,
+  edits: EditParams,
+  encoding: ImageEncoding,
+): Promise<ScanResult> {
+  if (!hasEdits(edits)) return processed;
+  return applyEditsNative(processed.base64, edits, encoding);
+}
+
 const DEFAULT_CORNERS: ScannerCorners = {
   tl: { x: 0.1, y: 0.1 },
   tr: { x: 0.9, y: 0.1 },
@@ -53,20 +152,209 @@ export default function ScanScreen() {
   const [step, setStep] = useState<Step>('home');
   const [imageUri, setImageUri] = useState<string | null>(null);
   const [imageSize, setImageSize] = useState({ width: 1, height: 1 });
+  const [capturedAt, setCapturedAt] = useState(0);
   const [corners, setCorners] = useState<ScannerCorners>(DEFAULT_CORNERS);
-  const enhanceMode: EnhanceMode = 'color';
+  const [curves, setCurves] = useState<PageCurves | null>(null);
+  const [gutter, setGutter] = useState<SpreadGutter | null>(null);
+  const [enhanceMode, setEnhanceMode] = useState<EnhanceMode>('color');
+  const [processOptions, setProcessOptions] = useState<ProcessOptions>(DEFAULT_PROCESS_OPTIONS);
+  const [filterPreviews, setFilterPreviews] = useState<FilterPreviews | null>(null);
   const [processing, setProcessing] = useState(false);
   const [detecting, setDetecting] = useState(false);
   const [nativeScan, setNativeScan] = useState(false);
-  const [result, setResult] = useState<ScanResult | null>(null);
+  // Side being captured in ID mode; null outside an ID scan
+  const [idSide, setIdSide] = useState<IdSide | null>(null);
+  // Receipt mode relaxes detection; each capture can extend the receipt page being stitched
+  const [receiptScan, setReceiptScan] = useState(false);
+  const [stitchPageId, setStitchPageId] = useState<string | null>(null);
+  // Business card mode crops to the card and reads the contact off the processed page
+  const [contactScan, setContactScan] = useState(false);
+  const [contact, setContact] = useState<{ pageId: string; card: BusinessCard } | null>(null);
+  const [ocrLanguage, setOcrLanguage] = useState<OcrLanguage>('en');
+  // Page whose recognized text is shown; null hides the text modal
+  const [textPageId, setTextPageId] = useState<string | null>(null);
+  // Language last asked of the text modal; recognitions in other languages finishing later are dropped
+  const textLanguageRef = useRef<OcrLanguage | null>(null);
+  const [pages, setPages] = useState<ScanPage[]>([]);
+  const [activePageId, setActivePageId] = useState<string | null>(null);
+  // Page being retaken or re-cropped; null means the next processed image is appended
+  const [targetPageId, setTargetPageId] = useState<string | null>(null);
+  // Bumped when a page is changed outside the editor so the editor reloads it
+  const [editorRevision, setEditorRevision] = useState(0);
   const [langModalVisible, setLangModalVisible] = useState(false);
+  const [pdfModalVisible, setPdfModalVisible] = useState(false);
+  const [pdfOptions, setPdfOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS);
+  const [pdfMetadata, setPdfMetadata] = useState<PdfMetadata>({ title: '', subject: '', keywords: '' });
+  const [exportModalVisible, setExportModalVisible] = useState(false);
+  const [exportProfile, setExportProfile] = useState<ExportProfile>(DEFAULT_EXPORT_PROFILE);
   const base64Ref = useRef<string | null>(null);
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const librarySessionRef = useRef<LibrarySession>(newLibrarySession());
+  // Serializes library writes so pages are saved in the order they changed
+  const librarySyncRef = useRef<Promise<void>>(Promise.resolve());
+
+  const activePage = pages.find((p) => p.id === activePageId) ?? null;
+  const { format, quality } = exportProfile;
+  const encoding = useMemo<ImageEncoding>(() => ({ format, quality }), [format, quality]);
+
+  useEffect(() => {
+    loadPdfOptions().then(setPdfOptions);
+    loadExportProfile().then(setExportProfile);
+    loadOcrLanguage(i18n.language).then(setOcrLanguage);
+  }, []);
+
+  // Auto-save the session to the library whenever its pages change
+  useEffect(() => {
+    if (pages.length === 0) return;
+    const session = librarySessionRef.current;
+    librarySyncRef.current = librarySyncRef.current
+      .then(async () => {
+        if (!session.documentId) {
+          const doc = await createDocument(t('docTitle', { date: formatTimestamp(Date.now()) }));
+          session.documentId = doc.id;
+          session.title = doc.title;
+        }
+        for (let i = 0; i < pages.length; i++) {
+          const page = pages[i];
+          const prev = session.saved.get(page.id);
+          if (prev?.result === page.result && prev.text === page.text && prev.section === page.section) continue;
+          await savePage(session.documentId, page, i, prev?.processed !== page.processed);
+          session.saved.set(page.id, page);
+        }
+        await syncPageOrder(session.documentId, pages.map((p) => p.id));
+      })
+      .catch((e) => console.warn('[Pixnap] Library save failed:', e));
+  }, [pages, t]);
+
+  const refreshDocuments = useCallback(() => {
+    librarySyncRef.current
+      .then(listDocuments)
+      .then(setDocuments)
+      .catch((e) => console.warn('[Pixnap] Library load failed:', e));
+  }, []);
+
+  useEffect(() => {
+    if (step === 'home') refreshDocuments();
+  }, [step, refreshDocuments]);
+
+  let cardShape: CardShape | null = null;
+  if (idSide) cardShape = idShapeOf(processOptions.paperSnap);
+  else if (contactScan) cardShape = 'businessCard';
+
+  // ID mode snaps pages to the card (or a passport the user picked) and pairs a front with its back
+  const startIdScan = useCallback(async () => {
+    await checkAndShowAd();
+    setProcessOptions((o) => (isIdShape(o.paperSnap) ? o : { ...o, paperSnap: 'idCard' }));
+    setIdSide('front');
+    setStep('camera');
+  }, []);
+
+  const endIdScan = useCallback(() => {
+    setIdSide(null);
+    setProcessOptions((o) => ({ ...o, paperSnap: DEFAULT_PROCESS_OPTIONS.paperSnap }));
+  }, []);
+
+  const startReceiptScan = useCallback(async () => {
+    await checkAndShowAd();
+    setProcessOptions((o) => ({ ...o, paperSnap: 'receipt' }));
+    setReceiptScan(true);
+    setStep('camera');
+  }, []);
+
+  const endReceiptScan = useCallback(() => {
+    setReceiptScan(false);
+    setStitchPageId(null);
+    setProcessOptions((o) => ({ ...o, paperSnap: DEFAULT_PROCESS_OPTIONS.paperSnap }));
+  }, []);
+
+  const startContactScan = useCallback(async () => {
+    await checkAndShowAd();
+    setProcessOptions((o) => ({ ...o, paperSnap: 'businessCard' }));
+    setContactScan(true);
+    setStep('camera');
+  }, []);
+
+  const endContactScan = useCallback(() => {
+    setContactScan(false);
+    setProcessOptions((o) => ({ ...o, paperSnap: DEFAULT_PROCESS_OPTIONS.paperSnap }));
+  }, []);
+
+  // Text is recognized once per page and language, and kept on the page until its geometry changes
+  // `isCurrent` is asked once recognition ends; a stale result is returned but not kept
+  const ensurePageText = useCallback(async (
+    page: ScanPage,
+    language: OcrLanguage,
+    isCurrent: () => boolean = () => true,
+  ): Promise<PageText> => {
+    if (page.text?.language === language) return page.text;
+    const text = await recognizePage(page.result, language);
+    if (isCurrent()) setPages((prev) => updatePage(prev, page.id, { text }));
+    return text;
+  }, []);
+
+  const showPageText = useCallback(async (page: ScanPage, language: OcrLanguage) => {
+    textLanguageRef.current = language;
+    const isCurrent = () => textLanguageRef.current === language;
+    setTextPageId(page.id);
+    try {
+      await ensurePageText(page, language, isCurrent);
+    } catch (e: any) {
+      if (!isCurrent()) return;
+      setTextPageId(null);
+      Alert.alert(t('textRecognitionFailed'), e.message || t('textRecognitionFailedMsg'));
+    }
+  }, [ensurePageText, t]);
+
+  const changeOcrLanguage = useCallback((language: OcrLanguage) => {
+    setOcrLanguage(language);
+    saveOcrLanguage(language).catch(() => {});
+    const page = pages.find((p) => p.id === textPageId);
+    if (page) showPageText(page, language);
+  }, [pages, textPageId, showPageText]);
+
+  const sharePageText = useCallback(async (text: string) => {
+    try {
+      await Share.share({ message: text });
+    } catch (e: any) {
+      Alert.alert(t('saveFailed'), e.message);
+    }
+  }, [t]);
+
+  // Reads the contact details off a business card page for the user to review
+  const readContact = useCallback(async (page: ScanPage) => {
+    setProcessing(true);
+    try {
+      const { lines } = await ensurePageText(page, ocrLanguage);
+      setContact({ pageId: page.id, card: parseBusinessCard(lines) });
+    } catch (e: any) {
+      Alert.alert(t('textRecognitionFailed'), e.message || t('textRecognitionFailedMsg'));
+    } finally {
+      setProcessing(false);
+    }
+  }, [ensurePageText, ocrLanguage, t]);
+
+  const shareContact = useCallback(async (card: BusinessCard) => {
+    const page = pages.find((p) => p.id === contact?.pageId);
+    if (!page) return;
+    try {
+      const file = await writeContactFile(card, page.result);
+      setContact(null);
+      await Sharing.shareAsync(file.uri, { mimeType: 'text/vcard', UTI: 'public.vcard' });
+    } catch (e: any) {
+      Alert.alert(t('saveFailed'), e.message || t('shareContactFailed'));
+    }
+  }, [pages, contact, t]);
 
   const handleAssetPicked = useCallback(async (asset: ImagePicker.ImagePickerAsset) => {
     setImageUri(asset.uri);
     setImageSize({ width: asset.width, height: asset.height });
-    setCorners(DEFAULT_CORNERS);
-    setResult(null);
+    // Album photos keep their original capture time when the picker returns EXIF
+    setCapturedAt(parseExifDate(asset.exif?.DateTimeOriginal) ?? Date.now());
+    const size = { width: asset.width, height: asset.height };
+    setCorners(cardShape ? cardCorners(null, size, cardShape) : DEFAULT_CORNERS);
+    setCurves(null);
+    setGutter(null);
+    setFilterPreviews(null);
     setNativeScan(false);
     setStep('crop');
     setDetecting(true);
@@ -75,8 +363,10 @@ export default function ScanScreen() {
       const b64 = await file.base64();
       base64Ref.current = b64;
       try {
-        const nativeCorners = await detectDocument(b64);
-        if (nativeCorners) {
+        const nativeCorners = await detectDocument(b64, { receipt: receiptScan });
+        if (cardShape) {
+          setCorners(cardCorners(nativeCorners, size, cardShape));
+        } else if (nativeCorners) {
           setCorners(nativeCorners);
         }
       } catch (e) {
@@ -87,7 +377,7 @@ export default function ScanScreen() {
     } finally {
       setDetecting(false);
     }
-  }, []);
+  }, [cardShape, receiptScan]);
 
   const handleNativeScan = useCallback(async () => {
     try {
@@ -107,15 +397,21 @@ export default function ScanScreen() {
     async (uri: string, width: number, height: number, corners: ScannerCorners | null, base64: string) => {
       setImageUri(uri);
       setImageSize({ width, height });
-      setResult(null);
+      setCapturedAt(Date.now());
+      setCurves(null);
+      setGutter(null);
+      setFilterPreviews(null);
       setNativeScan(false);
       base64Ref.current = base64;
       setStep('crop');
       setDetecting(true);
       try {
         // Use ONNX native detection on the full-res capture
-        const nativeCorners = await detectDocument(base64);
-        if (nativeCorners) {
+        const nativeCorners = await detectDocument(base64, { receipt: receiptScan });
+        if (cardShape) {
+          // Card scans only accept a quad with the card's proportions
+          setCorners(cardCorners(nativeCorners ?? corners, { width, height }, cardShape));
+        } else if (nativeCorners) {
           setCorners(nativeCorners);
         } else if (corners) {
           // Fall back to live-preview corners if available
@@ -124,12 +420,12 @@ export default function ScanScreen() {
           setCorners(DEFAULT_CORNERS);
         }
       } catch {
-        setCorners(corners ?? DEFAULT_CORNERS);
+        setCorners(cardShape ? cardCorners(corners, { width, height }, cardShape) : corners ?? DEFAULT_CORNERS);
       } finally {
         setDetecting(false);
       }
     },
-    [],
+    [cardShape, receiptScan],
   );
 
   const handlePickLibrary = useCallback(async () => {
@@ -138,6 +434,7 @@ export default function ScanScreen() {
       const pickerResult = await ImagePicker.launchImageLibraryAsync({
         quality: 1,
         mediaTypes: ['images'],
+        exif: true,
       });
       if (pickerResult.canceled || !pickerResult.assets[0]) return;
       await handleAssetPicked(pickerResult.assets[0]);
@@ -146,77 +443,508 @@ export default function ScanScreen() {
     }
   }, [t, handleAssetPicked]);
 
+  const loadBase64 = useCallback(async (uri: string) => {
+    if (!base64Ref.current) {
+      base64Ref.current = await new File(uri).base64();
+    }
+    return base64Ref.current;
+  }, []);
+
+  // Book mode starts from straight edges so the user only bends what is curved.
+  // It dewarps a single page, so it and spread splitting are mutually exclusive.
+  const toggleBookMode = useCallback((enabled: boolean) => {
+    setCurves(enabled ? flatCurves(corners) : null);
+    if (enabled) setGutter(null);
+  }, [corners]);
+
+  const toggleSplitSpread = useCallback(async (enabled: boolean) => {
+    if (!enabled) {
+      setGutter(null);
+      return;
+    }
+    setCurves(null);
+    setGutter(CENTER_GUTTER);
+    if (!imageUri || !processorRef.current) return;
+    try {
+      const base64 = await loadBase64(imageUri);
+      const detected = await processorRef.current.detectGutter(base64, corners);
+      // Keep the user's gutter if they dragged it or turned splitting off meanwhile
+      setGutter((current) => (current === CENTER_GUTTER ? detected : current));
+    } catch (e) {
+      console.warn('[Pixnap] Gutter detection failed:', e);
+    }
+  }, [imageUri, corners, loadBase64]);
+
+  // Refresh mode thumbnails once the corners settle
+  useEffect(() => {
+    if (step !== 'crop' || !imageUri || detecting) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const base64 = await loadBase64(imageUri);
+        if (!processorRef.current || cancelled) return;
+        const previews = await processorRef.current.previewFilters(base64, corners, processOptions, curves);
+        if (!cancelled) setFilterPreviews(previews);
+      } catch (e) {
+        console.warn('[Pixnap] Filter previews failed:', e);
+      }
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [step, imageUri, corners, curves, processOptions, detecting, loadBase64]);
+
+  // Perspective correction + enhancement of a capture, shared by new scans and page reprocessing
+  const runPipeline = useCallback(async (
+    base64: string,
+    sourceSize: { width: number; height: number },
+    cropCorners: ScannerCorners,
+    mode: EnhanceMode,
+    options: ProcessOptions,
+    curves: PageCurves | null,
+  ): Promise<ScanResult> => {
+    // Real page proportions from the perspective of the crop, optionally snapped to a paper format
+    const aspectRatio = pageAspectRatio(cropCorners, sourceSize, options.paperSnap);
+    const processInWebView = () => {
+      if (!processorRef.current) throw new Error('Processor not ready');
+      return processorRef.current.process(base64, cropCorners, mode, options, curves, encoding, aspectRatio);
+    };
+    // Native B&W is only a contrast curve and native warps are single homographies,
+    // so binarization and book-page dewarping run in the WebView engine
+    if (mode === 'bw' || curves) return processInWebView();
+    // Native processors have no deskew pass, so they warp corners already straightened by the WebView engine
+    const skew = options.deskew && processorRef.current
+      ? await processorRef.current.deskew(base64, cropCorners)
+      : { angle: 0, corners: cropCorners };
+    // Use native iOS Core Image for perspective correction (full-res, no WebView limits)
+    try {
+      const result = await processImageNative(base64, skew.corners, mode, options, encoding, aspectRatio);
+      return { ...result, skewAngle: skew.angle };
+    } catch {
+      // Fallback to WebView processing if native fails
+      return processInWebView();
+    }
+  }, [encoding]);
+
+  // Joins a new capture below the receipt page it continues. The stitched image
+  // becomes the page's source, so re-cropping trims the receipt as a whole.
+  const extendReceipt = useCallback(async (page: ScanPage, part: ScanResult): Promise<ScanPage> => {
+    if (!processorRef.current) throw new Error('WebView not ready');
+    const stitched = await processorRef.current.stitch(page.processed.base64, part.base64, encoding);
+    const source = writeExportFile(stitched, `receipt_${page.id}_${Date.now()}`);
+    let edited: ScanResult = stitched;
+    try {
+      edited = await applyPageEdits(stitched, page.edits, encoding);
+    } catch (e) {
+      console.warn('[Pixnap] Reapplying edits failed:', e);
+    }
+    return {
+      ...page,
+      imageUri: source.uri,
+      imageWidth: stitched.width,
+      imageHeight: stitched.height,
+      corners: FULL_CORNERS,
+      curves: null,
+      // The stitched source is already enhanced; re-cropping it only corrects perspective
+      enhanceMode: 'photo',
+      processOptions: { ...page.processOptions, removeShadows: false, deskew: false },
+      edits: edited === stitched ? DEFAULT_EDITS : page.edits,
+      text: undefined,
+      processed: stitched,
+      result: edited,
+    };
+  }, [encoding]);
+
   const doProcess = useCallback(async () => {
     if (!imageUri) return;
     setProcessing(true);
     try {
-      let base64 = base64Ref.current;
-      if (!base64) {
-        const file = new File(imageUri);
-        base64 = await file.base64();
-        base64Ref.current = base64;
-      }
-      // Use native iOS Core Image for perspective correction (full-res, no WebView limits)
-      let scanResult: { base64: string; width: number; height: number };
-      try {
-        scanResult = await processImageNative(base64, corners, enhanceMode);
-      } catch {
-        // Fallback to WebView processing if native fails
-        if (!processorRef.current) throw new Error('Processor not ready');
-        scanResult = await processorRef.current.process(base64, corners, enhanceMode);
+      const base64 = await loadBase64(imageUri);
+      // A two-page spread becomes two pages, each perspective-corrected on its own
+      const crops = gutter ? splitSpread(corners, gutter) : [corners];
+      const target = pages.find((p) => p.id === targetPageId);
+      const receiptPage = pages.find((p) => p.id === stitchPageId);
+      const newPages: ScanPage[] = [];
+      for (const [i, crop] of crops.entries()) {
+        const scanResult = await runPipeline(base64, imageSize, crop, enhanceMode, processOptions, curves);
+        if (receiptPage) {
+          newPages.push(await extendReceipt(receiptPage, scanResult));
+          continue;
+        }
+        // Re-cropping or retaking a page keeps its editor adjustments; new pages start upright
+        const replaced = i === 0 ? target : undefined;
+        let edits = replaced?.edits ?? DEFAULT_EDITS;
+        let autoRotation: number | undefined;
+        if (!replaced && processorRef.current) {
+          const rotation = await processorRef.current.detectOrientation(scanResult.base64);
+          if (rotation !== 0) {
+            edits = { ...edits, rotation };
+            autoRotation = rotation;
+          }
+        }
+        let edited: ScanResult = scanResult;
+        try {
+          edited = await applyPageEdits(scanResult, edits, encoding);
+        } catch (e) {
+          console.warn('[Pixnap] Reapplying edits failed:', e);
+        }
+        newPages.push({
+          id: (i === 0 && targetPageId) || createPageId(),
+          imageUri,
+          imageWidth: imageSize.width,
+          imageHeight: imageSize.height,
+          capturedAt,
+          corners: crop,
+          curves,
+          enhanceMode,
+          processOptions,
+          edits: edited === scanResult ? DEFAULT_EDITS : edits,
+          autoRotation: edited === scanResult ? undefined : autoRotation,
+          idSide: replaced ? replaced.idSide : idSide ?? undefined,
+          processed: scanResult,
+          result: edited,
+        });
       }
-      setResult(scanResult);
+      setPages((prev) => upsertPages(prev, newPages));
+      setActivePageId(newPages[0].id);
+      setTargetPageId(null);
       setStep('preview');
+      if (idSide === 'front') {
+        Alert.alert(t('scanIdBackTitle'), t('scanIdBackMsg'), [
+          { text: t('skip'), style: 'cancel', onPress: endIdScan },
+          { text: t('scanBack'), onPress: () => { setIdSide('back'); setStep('camera'); } },
+        ]);
+      } else if (idSide) {
+        endIdScan();
+      } else if (receiptScan) {
+        const receiptId = newPages[0].id;
+        Alert.alert(t('receiptNextTitle'), t('receiptNextMsg'), [
+          { text: t('done'), style: 'cancel', onPress: endReceiptScan },
+          { text: t('receiptAddPart'), onPress: () => { setStitchPageId(receiptId); setStep('camera'); } },
+        ]);
+      } else if (contactScan) {
+        endContactScan();
+        await readContact(newPages[0]);
+      }
     } catch (e: any) {
       Alert.alert(t('processFailed'), e.message || t('processFailedMsg'));
     } finally {
       setProcessing(false);
     }
-  }, [imageUri, corners, enhanceMode, t]);
+  }, [imageUri, imageSize, capturedAt, corners, curves, gutter, enhanceMode, processOptions, targetPageId, stitchPageId, pages, idSide, receiptScan, contactScan, encoding, loadBase64, runPipeline, extendReceipt, readContact, endIdScan, endReceiptScan, endContactScan, t]);
 
-  const savePng = useCallback(async () => {
-    if (!result) return;
+  // With a target size set, shows what compression achieved and lets the user back out
+  const confirmExport = useCallback((report: ExportReport, actionLabel: string) => {
+    if (exportProfile.targetSizeKB <= 0) return Promise.resolve(true);
+    const params = {
+      size: formatFileSize(report.bytes),
+      target: formatFileSize(exportProfile.targetSizeKB * 1024),
+      width: report.width,
+      height: report.height,
+    };
+    return new Promise<boolean>((resolve) => {
+      Alert.alert(
+        t('compressedTitle'),
+        t(report.fitsTarget ? 'compressedMsg' : 'compressedOverMsg', params),
+        [
+          { text: t('cancel'), style: 'cancel', onPress: () => resolve(false) },
+          { text: actionLabel, onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) },
+      );
+    });
+  }, [exportProfile.targetSizeKB, t]);
+
+  const saveImage = useCallback(async () => {
+    if (!activePage) return;
     try {
       const { status } = await MediaLibrary.requestPermissionsAsync();
       if (status !== 'granted') {
         Alert.alert(t('saveFailed'), t('saveImageFailed'));
         return;
       }
-      const scansDir = new Directory(Paths.document, 'scans');
-      if (!scansDir.exists) {
-        scansDir.create();
-      }
-      const outFile = new File(scansDir, `scan_${Date.now()}.jpg`);
-      outFile.create();
-      outFile.write(result.base64, { encoding: 'base64' });
+      // Library files live under Paths.document; gallery exports only need a temporary copy
+      const exported = await exportImage(activePage.result, exportProfile, {
+        capturedAt: activePage.capturedAt,
+        title: librarySessionRef.current.title ?? undefined,
+        paper: pdfOptions.pageSize === 'fit' ? null : pdfOptions.pageSize,
+      });
+      if (!(await confirmExport(exported.report, t('save')))) return;
+      const outFile = writeExportFile(exported.image, `scan_${Date.now()}`);
       await MediaLibrary.saveToLibraryAsync(outFile.uri);
       Alert.alert(t('savedSuccess'), t('imageSaved'));
     } catch (e: any) {
       Alert.alert(t('saveFailed'), e.message || t('saveImageFailed'));
     }
-  }, [result, t]);
+  }, [activePage, exportProfile, pdfOptions.pageSize, confirmExport, t]);
+
+  const savePdf = useCallback(() => {
+    if (pages.length === 0) return;
+    const { title, subject, keywords } = librarySessionRef.current;
+    setPdfMetadata({ title: title ?? '', subject, keywords });
+    setPdfModalVisible(true);
+  }, [pages.length]);
+
+  const pageSections = useMemo(() => pages.map((p) => p.section ?? ''), [pages]);
+
+  // Export properties are kept with the document, the title doubling as its library title
+  const saveDocumentProperties = useCallback((metadata: PdfMetadata) => {
+    const session = librarySessionRef.current;
+    session.title = metadata.title.trim() || session.title;
+    session.subject = metadata.subject.trim();
+    session.keywords = metadata.keywords.trim();
+    librarySyncRef.current = librarySyncRef.current
+      .then(async () => {
+        if (!session.documentId || !session.title) return;
+        await updateDocumentProperties(session.documentId, {
+          title: session.title,
+          subject: session.subject,
+          keywords: session.keywords,
+        });
+      })
+      .catch((e) => console.warn('[Pixnap] Library save failed:', e));
+  }, []);
+
+  // With the searchable option on, pages not read yet are recognized before export.
+  // A page that fails is exported without text; the others keep theirs.
+  const withPageText = useCallback(async (
+    list: ScanPage[],
+    textLayer: PdfTextLayer,
+  ): Promise<{ pages: ScanPage[]; unread: number }> => {
+    const texts = new Map<string, PageText>();
+    const missing = textLayer === 'recognize' ? list.filter((p) => !p.text) : [];
+    if (missing.length === 0) return { pages: list, unread: 0 };
+    setProcessing(true);
+    try {
+      for (const page of missing) {
+        try {
+          texts.set(page.id, await recognizePage(page.result, ocrLanguage));
+        } catch (e) {
+          console.warn('[Pixnap] Text recognition failed:', e);
+        }
+      }
+    } finally {
+      setProcessing(false);
+    }
+    // Pages edited while recognition ran are left without the stale text
+    const read = new Map(missing.map((p) => [p.id, p.result]));
+    setPages((prev) => prev.map((p) => {
+      const text = texts.get(p.id);
+      return text && !p.text && read.get(p.id) === p.result ? { ...p, text } : p;
+    }));
+    return {
+      pages: list.map((p) => (texts.has(p.id) ? { ...p, text: texts.get(p.id) } : p)),
+      unread: missing.length - texts.size,
+    };
+  }, [ocrLanguage]);
 
-  const savePdf = useCallback(async () => {
-    if (!result) return;
+  const confirmIncompleteText = useCallback((unread: number, total: number) =>
+    new Promise<boolean>((resolve) => {
+      Alert.alert(
+        t('textLayerIncomplete'),
+        t('textLayerIncompleteMsg', { count: unread, total }),
+        [
+          { text: t('cancel'), style: 'cancel', onPress: () => resolve(false) },
+          { text: t('exportPdf'), onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) },
+      );
+    }), [t]);
+
+  const exportPdf = useCallback(async (options: PdfExportOptions, metadata: PdfMetadata, sections: string[]) => {
+    setPdfModalVisible(false);
+    setPdfOptions(options);
+    savePdfOptions(options).catch(() => {});
+    saveDocumentProperties(metadata);
+    // Sections are listed in page order as the modal showed them
+    const sectionOf = new Map(pages.map((p, i) => [p.id, sections[i]?.trim() || undefined]));
+    const withSections = (list: ScanPage[]) => list.map((p) =>
+      sectionOf.has(p.id) && sectionOf.get(p.id) !== p.section ? { ...p, section: sectionOf.get(p.id) } : p);
+    setPages(withSections);
     try {
-      const pdfUri = await generatePdf(result.base64, result.width, result.height);
-      await Sharing.shareAsync(pdfUri, { mimeType: 'application/pdf' });
+      const read = await withPageText(withSections(pages), options.textLayer);
+      if (read.unread > 0 && !(await confirmIncompleteText(read.unread, read.pages.length))) return;
+      const sources = pdfPageSources(read.pages);
+      const pdf = await generateMultiPagePdf(sources, options, exportProfile, metadata);
+      if (!(await confirmExport(pdf.report, t('share')))) return;
+      await Sharing.shareAsync(pdf.uri, { mimeType: 'application/pdf' });
     } catch (e: any) {
       Alert.alert(t('saveFailed'), e.message || t('savePdfFailed'));
     }
-  }, [result, t]);
+  }, [pages, exportProfile, withPageText, confirmIncompleteText, saveDocumentProperties, confirmExport, t]);
 
-  const handleEditorResult = useCallback((edited: ScanResult) => {
-    setResult(edited);
+  const updateExportProfile = useCallback((profile: ExportProfile) => {
+    setExportModalVisible(false);
+    setExportProfile(profile);
+    saveExportProfile(profile).catch(() => {});
   }, []);
 
+  const handleEditorResult = useCallback((edited: ScanResult, edits: EditParams) => {
+    if (!activePageId) return;
+    setPages((prev) => updatePage(prev, activePageId, { result: edited, edits }));
+  }, [activePageId]);
+
+  const undoAutoRotation = useCallback(async () => {
+    if (!activePage?.autoRotation) return;
+    const { id, edits, processed, autoRotation } = activePage;
+    const restored = { ...edits, rotation: (edits.rotation - autoRotation + 360) % 360 };
+    try {
+      const result = await applyPageEdits(processed, restored, encoding);
+      setPages((prev) => updatePage(prev, id, { edits: restored, result, autoRotation: undefined }));
+      setEditorRevision((r) => r + 1);
+    } catch (e: any) {
+      Alert.alert(t('processFailed'), e.message || t('processFailedMsg'));
+    }
+  }, [activePage, encoding, t]);
+
+  // Reprocesses the active page from its original capture without the deskew pass
+  const revertDeskew = useCallback(async () => {
+    if (!activePage) return;
+    const page = activePage;
+    setProcessing(true);
+    try {
+      const base64 = await new File(page.imageUri).base64();
+      const options = { ...page.processOptions, deskew: false };
+      const sourceSize = { width: page.imageWidth, height: page.imageHeight };
+      const processed = await runPipeline(base64, sourceSize, page.corners, page.enhanceMode, options, page.curves);
+      const result = await applyPageEdits(processed, page.edits, encoding);
+      setPages((prev) => updatePage(prev, page.id, { processOptions: options, processed, result }));
+      setEditorRevision((r) => r + 1);
+    } catch (e: any) {
+      Alert.alert(t('processFailed'), e.message || t('processFailedMsg'));
+    } finally {
+      setProcessing(false);
+    }
+  }, [activePage, encoding, runPipeline, t]);
+
   const resetToStart = useCallback(() => {
     setStep('home');
     setImageUri(null);
-    setResult(null);
+    setPages([]);
+    setActivePageId(null);
+    setTargetPageId(null);
     setNativeScan(false);
     setCorners(DEFAULT_CORNERS);
+    setCurves(null);
+    setGutter(null);
+    if (idSide) endIdScan();
+    if (receiptScan) endReceiptScan();
+    if (contactScan) endContactScan();
     base64Ref.current = null;
+    librarySessionRef.current = newLibrarySession();
+  }, [idSide, receiptScan, contactScan, endIdScan, endReceiptScan, endContactScan]);
+
+  const openDocument = useCallback(async (doc: LibraryDocument) => {
+    try {
+      const loaded = await loadDocumentPages(doc.id);
+      if (loaded.length === 0) throw new Error(t('docEmpty'));
+      librarySessionRef.current = {
+        documentId: doc.id,
+        title: doc.title,
+        subject: doc.subject,
+        keywords: doc.keywords,
+        saved: new Map(loaded.map((p) => [p.id, p])),
+      };
+      setPages(loaded);
+      setActivePageId(loaded[0].id);
+      setTargetPageId(null);
+      setStep('preview');
+    } catch (e: any) {
+      Alert.alert(t('error'), e.message || t('openDocFailed'));
+    }
+  }, [t]);
+
+  const handleDeleteDocument = useCallback((doc: LibraryDocument) => {
+    Alert.alert(t('deleteDoc'), t('deleteDocMsg', { title: doc.title }), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('delete'),
+        style: 'destructive',
+        onPress: () => {
+          librarySyncRef.current = librarySyncRef.current
+            .then(() => deleteDocument(doc.id))
+            .catch((e) => console.warn('[Pixnap] Library delete failed:', e));
+          refreshDocuments();
+        },
+      },
+    ]);
+  }, [refreshDocuments, t]);
+
+  // ── Session actions ──
+  const addPage = useCallback(() => {
+    setTargetPageId(null);
+    setStep('camera');
+  }, []);
+
+  const retakeActivePage = useCallback(() => {
+    if (!activePageId) return;
+    setTargetPageId(activePageId);
+    setStep('camera');
+  }, [activePageId]);
+
+  const recropActivePage = useCallback(() => {
+    if (!activePage) return;
+    if (activePage.imageUri !== imageUri) base64Ref.current = null;
+    setImageUri(activePage.imageUri);
+    setImageSize({ width: activePage.imageWidth, height: activePage.imageHeight });
+    setCapturedAt(activePage.capturedAt);
+    setCorners(activePage.corners);
+    setCurves(activePage.curves);
+    setGutter(null);
+    setEnhanceMode(activePage.enhanceMode);
+    setProcessOptions(activePage.processOptions);
+    setFilterPreviews(null);
+    setNativeScan(false);
+    setTargetPageId(activePage.id);
+    setStep('crop');
+  }, [activePage, imageUri]);
+
+  // Leave camera/crop without capturing and return to the current document
+  const cancelCapture = useCallback(() => {
+    setTargetPageId(null);
+    if (idSide) endIdScan();
+    if (receiptScan) endReceiptScan();
+    if (contactScan) endContactScan();
+    setStep(pages.length > 0 ? 'preview' : 'home');
+  }, [pages.length, idSide, receiptScan, contactScan, endIdScan, endReceiptScan, endContactScan]);
+
+  const handleRetake = useCallback(() => {
+    if (pages.length > 0) {
+      setStep('camera');
+    } else {
+      resetToStart();
+    }
+  }, [pages.length, resetToStart]);
+
+  const handleDeletePage = useCallback((id: string) => {
+    Alert.alert(t('deletePage'), t('deletePageMsg'), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('delete'),
+        style: 'destructive',
+        onPress: () => {
+          const idx = pages.findIndex((p) => p.id === id);
+          const remaining = removePage(pages, id);
+          if (remaining.length === 0) {
+            const { documentId } = librarySessionRef.current;
+            if (documentId) {
+              librarySyncRef.current = librarySyncRef.current
+                .then(() => deleteDocument(documentId))
+                .catch((e) => console.warn('[Pixnap] Library delete failed:', e));
+            }
+            resetToStart();
+            return;
+          }
+          setPages(remaining);
+          setActivePageId(remaining[Math.min(idx, remaining.length - 1)].id);
+        },
+      },
+    ]);
+  }, [pages, resetToStart, t]);
+
+  const handleMovePage = useCallback((id: string, offset: number) => {
+    setPages((prev) => movePage(prev, id, offset));
   }, []);
 
   const handleLanguageSelect = useCallback(async (code: string) => {
@@ -284,13 +1012,19 @@ export default function ScanScreen() {
   // ── Home step ──
   const renderHomeStep = () => (
     <View style={styles.cameraStep}>
-      <View style={styles.cameraStepContent}>
-        <FontAwesome name="file-text-o" size={64} color={Colors[theme].subtleText} />
-        <Text style={[styles.cameraStepTitle, { color: Colors[theme].text }]}>{t('docScan')}</Text>
-        <Text style={[styles.cameraStepSubtitle, { color: Colors[theme].subtleText }]}>
-          {t('docScanSubtitle')}
-        </Text>
-      </View>
+      {documents.length > 0 ? (
+        <View style={styles.flex}>
+          <DocumentList documents={documents} onOpen={openDocument} onDelete={handleDeleteDocument} />
+        </View>
+      ) : (
+        <View style={styles.cameraStepContent}>
+          <FontAwesome name="file-text-o" size={64} color={Colors[theme].subtleText} />
+          <Text style={[styles.cameraStepTitle, { color: Colors[theme].text }]}>{t('docScan')}</Text>
+          <Text style={[styles.cameraStepSubtitle, { color: Colors[theme].subtleText }]}>
+            {t('docScanSubtitle')}
+          </Text>
+        </View>
+      )}
       <View style={[styles.controlPanel, { backgroundColor: Colors[theme].cardBackground }]}>
         <TouchableOpacity
           style={[styles.scanBtn, { backgroundColor: Colors[theme].tint }]}
@@ -300,6 +1034,30 @@ export default function ScanScreen() {
           <FontAwesome name="camera" size={18} color="#fff" style={{ marginRight: 8 }} />
           <Text style={styles.scanBtnText}>{t('scanDoc')}</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.scanBtn, { backgroundColor: Colors[theme].inputBackground, marginTop: 10 }]}
+          onPress={startIdScan}
+          activeOpacity={0.7}
+        >
+          <FontAwesome name="id-card-o" size={18} color={Colors[theme].text} style={{ marginRight: 8 }} />
+          <Text style={[styles.scanBtnText, { color: Colors[theme].text }]}>{t('scanId')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.scanBtn, { backgroundColor: Colors[theme].inputBackground, marginTop: 10 }]}
+          onPress={startReceiptScan}
+          activeOpacity={0.7}
+        >
+          <FontAwesome name="list-alt" size={18} color={Colors[theme].text} style={{ marginRight: 8 }} />
+          <Text style={[styles.scanBtnText, { color: Colors[theme].text }]}>{t('scanReceipt')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.scanBtn, { backgroundColor: Colors[theme].inputBackground, marginTop: 10 }]}
+          onPress={startContactScan}
+          activeOpacity={0.7}
+        >
+          <FontAwesome name="address-card-o" size={18} color={Colors[theme].text} style={{ marginRight: 8 }} />
+          <Text style={[styles.scanBtnText, { color: Colors[theme].text }]}>{t('scanBusinessCard')}</Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.scanBtn, { backgroundColor: Colors[theme].inputBackground, marginTop: 10 }]}
           onPress={handlePickLibrary}
@@ -316,16 +1074,27 @@ export default function ScanScreen() {
           <FontAwesome name="globe" size={18} color={Colors[theme].subtleText} style={{ marginRight: 8 }} />
           <Text style={[styles.langBtnText, { color: Colors[theme].subtleText }]}>{t('language')}</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.langBtn, { backgroundColor: Colors[theme].inputBackground, marginTop: 10 }]}
+          onPress={() => setExportModalVisible(true)}
+          activeOpacity={0.7}
+        >
+          <FontAwesome name="sliders" size={18} color={Colors[theme].subtleText} style={{ marginRight: 8 }} />
+          <Text style={[styles.langBtnText, { color: Colors[theme].subtleText }]}>{t('exportSettings')}</Text>
+        </TouchableOpacity>
       </View>
     </View>
   );
 
   // ── Camera step (live scanner) ──
+  // Close leads back to the pages, or home out of an ID, receipt or card scan started there
   const renderCameraStep = () => (
     <CameraScanner
       processorRef={processorRef}
       onCapture={handleCameraCapture}
       onPickLibrary={handlePickLibrary}
+      onCancel={pages.length > 0 || idSide || receiptScan || contactScan ? cancelCapture : undefined}
+      receipt={receiptScan}
     />
   );
 
@@ -346,6 +1115,10 @@ export default function ScanScreen() {
             imageHeight={imageSize.height}
             corners={corners}
             onCornersChange={setCorners}
+            curves={curves}
+            onCurvesChange={setCurves}
+            gutter={gutter}
+            onGutterChange={setGutter}
           />
         ) : null}
         {detecting && (
@@ -357,10 +1130,20 @@ export default function ScanScreen() {
       </View>
 
       <View style={[styles.controlPanel, { backgroundColor: Colors[theme].cardBackground }]}>
+        <EnhanceModePicker mode={enhanceMode} previews={filterPreviews} onModeChange={setEnhanceMode} />
+        <ProcessOptionsPanel
+          mode={enhanceMode}
+          options={processOptions}
+          onOptionsChange={setProcessOptions}
+          bookMode={curves !== null}
+          onBookModeChange={nativeScan || cardShape || receiptScan ? undefined : toggleBookMode}
+          splitSpread={gutter !== null}
+          onSplitSpreadChange={nativeScan || cardShape || receiptScan ? undefined : toggleSplitSpread}
+        />
         <View style={styles.actionRow}>
           <TouchableOpacity
             style={[styles.actionBtn, { backgroundColor: Colors[theme].inputBackground }]}
-            onPress={resetToStart}
+            onPress={handleRetake}
             activeOpacity={0.7}
           >
             <Text style={[styles.actionBtnText, { color: Colors[theme].text }]}>{t('retake')}</Text>
@@ -385,14 +1168,45 @@ export default function ScanScreen() {
   // ── Preview step ──
   const renderPreviewStep = () => (
     <View style={styles.flex}>
-      {result && (
+      <PageStrip
+        pages={pages}
+        activePageId={activePageId}
+        onSelect={setActivePageId}
+        onMove={handleMovePage}
+        onDelete={handleDeletePage}
+        onAddPage={addPage}
+        onClose={resetToStart}
+      />
+      {activePage?.autoRotation !== undefined && activePage.edits.rotation === activePage.autoRotation && (
+        <CorrectionBanner
+          icon="repeat"
+          message={t('autoRotated', { degrees: activePage.autoRotation })}
+          onUndo={undoAutoRotation}
+        />
+      )}
+      {!!activePage?.processed.skewAngle && activePage.processOptions.deskew && (
+        <CorrectionBanner
+          icon="align-left"
+          message={t('deskewed', { degrees: Math.abs(activePage.processed.skewAngle).toFixed(1) })}
+          onUndo={revertDeskew}
+        />
+      )}
+      {activePage && (
         <ImageEditorPanel
-          result={result}
+          key={`${activePage.id}:${editorRevision}`}
+          result={activePage.processed}
+          initialEdits={activePage.edits}
+          initialResult={activePage.result}
           onResultChange={handleEditorResult}
-          onRescan={resetToStart}
-          onBackToCrop={() => setStep('crop')}
-          onSavePng={savePng}
+          onRescan={retakeActivePage}
+          onBackToCrop={recropActivePage}
+          encoding={encoding}
+          onSaveImage={saveImage}
           onSavePdf={savePdf}
+          onRecognizeText={() => showPageText(activePage, ocrLanguage)}
+          onReadContact={
+            activePage.processOptions.paperSnap === 'businessCard' ? () => readContact(activePage) : undefined
+          }
         />
       )}
     </View>
@@ -415,6 +1229,29 @@ export default function ScanScreen() {
       {step === 'preview' && renderPreviewStep()}
 
       {renderLanguageModal()}
+      <PdfOptionsModal
+        visible={pdfModalVisible}
+        options={pdfOptions}
+        metadata={pdfMetadata}
+        sections={pageSections}
+        onCancel={() => setPdfModalVisible(false)}
+        onExport={exportPdf}
+      />
+      <ExportProfileModal
+        visible={exportModalVisible}
+        profile={exportProfile}
+        onCancel={() => setExportModalVisible(false)}
+        onSave={updateExportProfile}
+      />
+      <BusinessCardModal card={contact?.card ?? null} onCancel={() => setContact(null)} onShare={shareContact} />
+      <PageTextModal
+        visible={textPageId !== null}
+        text={pages.find((p) => p.id === textPageId)?.text ?? null}
+        language={ocrLanguage}
+        onLanguageChange={changeOcrLanguage}
+        onShare={sharePageText}
+        onClose={() => setTextPageId(null)}
+      />
     </View>
   );
 }
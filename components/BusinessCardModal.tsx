@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  useColorScheme,
+  type KeyboardTypeOptions,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+import type { BusinessCard } from '@/types';
+
+interface Props {
+  /** Recognized contact to review; null hides the modal */
+  card: BusinessCard | null;
+  onCancel: () => void;
+  onShare: (card: BusinessCard) => void;
+}
+
+const FIELDS: { key: keyof BusinessCard; labelKey: string; keyboardType?: KeyboardTypeOptions; multiline?: boolean }[] = [
+  { key: 'name', labelKey: 'contactName' },
+  { key: 'company', labelKey: 'contactCompany' },
+  { key: 'phone', labelKey: 'contactPhone', keyboardType: 'phone-pad' },
+  { key: 'email', labelKey: 'contactEmail', keyboardType: 'email-address' },
+  { key: 'address', labelKey: 'contactAddress', multiline: true },
+];
+
+export default function BusinessCardModal({ card, onCancel, onShare }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<BusinessCard | null>(card);
+
+  useEffect(() => {
+    if (card) setDraft(card);
+  }, [card]);
+
+  return (
+    <Modal visible={card !== null} transparent animationType="fade" onRequestClose={onCancel}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onCancel}>
+        <TouchableOpacity
+          activeOpacity={1}
+          style={[styles.content, { backgroundColor: Colors[theme].cardBackground }]}
+        >
+          <Text style={[styles.title, { color: Colors[theme].text }]}>{t('contactCard')}</Text>
+          <Text style={[styles.hint, { color: Colors[theme].subtleText }]}>{t('contactCardHint')}</Text>
+
+          <ScrollView style={styles.fields} keyboardShouldPersistTaps="handled">
+            {FIELDS.map((field) => (
+              <View key={field.key}>
+                <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t(field.labelKey)}</Text>
+                <TextInput
+                  style={[
+                    styles.input,
+                    field.multiline && styles.inputMultiline,
+                    { backgroundColor: Colors[theme].inputBackground, color: Colors[theme].text },
+                  ]}
+                  value={draft?.[field.key] ?? ''}
+                  onChangeText={(value) => setDraft((d) => (d ? { ...d, [field.key]: value } : d))}
+                  keyboardType={field.keyboardType}
+                  autoCapitalize={field.keyboardType ? 'none' : 'words'}
+                  autoCorrect={false}
+                  multiline={field.multiline}
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: Colors[theme].inputBackground }]}
+              onPress={onCancel}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionBtnText, { color: Colors[theme].text }]}>{t('cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: Colors[theme].tint }]}
+              onPress={() => draft && onShare(draft)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionBtnText, { color: '#fff' }]}>{t('shareVCard')}</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    width: 320,
+    maxHeight: '85%',
+    borderRadius: 16,
+    padding: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  hint: { fontSize: 11, textAlign: 'center' },
+  fields: { flexGrow: 0 },
+  sectionLabel: { fontSize: 12, fontWeight: '600', marginTop: 10, marginBottom: 6 },
+  input: { fontSize: 15, paddingHorizontal: 12, paddingVertical: 9, borderRadius: 10 },
+  inputMultiline: { minHeight: 60, textAlignVertical: 'top' },
+  actionRow: { flexDirection: 'row', gap: 10, marginTop: 18 },
+  actionBtn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  actionBtnText: { fontSize: 15, fontWeight: '600' },
+});
@@ -0,0 +1,43 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+
+/** Notice for an automatic correction applied to the page, with one-tap undo */
+interface Props {
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  message: string;
+  onUndo: () => void;
+}
+
+export default function CorrectionBanner({ icon, message, onUndo }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+
+  return (
+    <View style={[styles.container, { backgroundColor: Colors[theme].inputBackground }]}>
+      <FontAwesome name={icon} size={13} color={Colors[theme].tint} />
+      <Text style={[styles.text, { color: Colors[theme].text }]}>{message}</Text>
+      <TouchableOpacity onPress={onUndo} activeOpacity={0.7} style={styles.undoBtn}>
+        <Text style={[styles.undoText, { color: Colors[theme].tint }]}>{t('undo')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 12,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 10,
+  },
+  text: { flex: 1, fontSize: 13 },
+  undoBtn: { paddingHorizontal: 6, paddingVertical: 2 },
+  undoText: { fontSize: 13, fontWeight: '600' },
+});
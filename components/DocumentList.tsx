@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  useColorScheme,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+import { formatTimestamp } from '@/utils/format';
+import type { LibraryDocument } from '@/types';
+
+interface Props {
+  documents: LibraryDocument[];
+  onOpen: (doc: LibraryDocument) => void;
+  onDelete: (doc: LibraryDocument) => void;
+}
+
+export default function DocumentList({ documents, onOpen, onDelete }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+
+  return (
+    <FlatList
+      data={documents}
+      keyExtractor={(item) => item.id}
+      contentContainerStyle={styles.list}
+      ListHeaderComponent={
+        <Text style={[styles.header, { color: Colors[theme].subtleText }]}>{t('library')}</Text>
+      }
+      renderItem={({ item }) => (
+        <TouchableOpacity
+          style={[styles.row, { backgroundColor: Colors[theme].cardBackground }]}
+          onPress={() => onOpen(item)}
+          onLongPress={() => onDelete(item)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.cover, { backgroundColor: Colors[theme].inputBackground }]}>
+            {item.coverUri ? (
+              <Image source={{ uri: item.coverUri }} style={styles.coverImage} resizeMode="cover" />
+            ) : (
+              <FontAwesome name="file-text-o" size={20} color={Colors[theme].subtleText} />
+            )}
+          </View>
+          <View style={styles.info}>
+            <Text style={[styles.title, { color: Colors[theme].text }]} numberOfLines={1}>{item.title}</Text>
+            <Text style={[styles.meta, { color: Colors[theme].subtleText }]}>
+              {formatTimestamp(item.updatedAt)} · {t('pageCount', { count: item.pageCount })}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.deleteBtn} onPress={() => onDelete(item)} activeOpacity={0.7}>
+            <FontAwesome name="trash-o" size={16} color={Colors[theme].subtleText} />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      )}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  list: { padding: 12, gap: 8 },
+  header: { fontSize: 13, fontWeight: '600', marginBottom: 4, marginLeft: 4 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 12,
+    gap: 12,
+  },
+  cover: {
+    width: 48,
+    height: 64,
+    borderRadius: 6,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  coverImage: { width: '100%', height: '100%' },
+  info: { flex: 1, gap: 4 },
+  title: { fontSize: 15, fontWeight: '600' },
+  meta: { fontSize: 12 },
+  deleteBtn: { padding: 8 },
+});
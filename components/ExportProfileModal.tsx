@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  useColorScheme,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+import {
+  EXPORT_FORMATS,
+  EXPORT_QUALITIES,
+  EXPORT_MAX_DIMENSIONS,
+  EXPORT_DPIS,
+  EXPORT_TARGET_SIZES,
+  IMAGE_FORMAT_LABELS,
+  type ExportProfile,
+} from '@/services/exportService';
+import { formatFileSize } from '@/utils/format';
+
+interface Props {
+  visible: boolean;
+  profile: ExportProfile;
+  onCancel: () => void;
+  onSave: (profile: ExportProfile) => void;
+}
+
+export default function ExportProfileModal({ visible, profile, onCancel, onSave }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState(profile);
+
+  useEffect(() => {
+    if (visible) setDraft(profile);
+  }, [visible, profile]);
+
+  const renderChips = <T,>(
+    values: readonly T[],
+    selected: T,
+    label: (v: T) => string,
+    onSelect: (v: T) => void,
+    disabled = false,
+  ) => (
+    <View style={[styles.chipRow, disabled && { opacity: 0.4 }]}>
+      {values.map((v) => {
+        const isActive = v === selected;
+        return (
+          <TouchableOpacity
+            key={String(v)}
+            style={[
+              styles.chip,
+              { backgroundColor: isActive ? Colors[theme].tint : Colors[theme].inputBackground },
+            ]}
+            onPress={() => onSelect(v)}
+            disabled={disabled}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, { color: isActive ? '#fff' : Colors[theme].text }]}>{label(v)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onCancel}>
+        <TouchableOpacity
+          activeOpacity={1}
+          style={[styles.content, { backgroundColor: Colors[theme].cardBackground }]}
+        >
+          <Text style={[styles.title, { color: Colors[theme].text }]}>{t('exportSettings')}</Text>
+
+          <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('imageFormat')}</Text>
+          {renderChips(EXPORT_FORMATS, draft.format, (v) => IMAGE_FORMAT_LABELS[v], (format) =>
+            setDraft((d) => ({ ...d, format })))}
+
+          <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('imageQuality')}</Text>
+          {renderChips(
+            EXPORT_QUALITIES,
+            draft.quality,
+            (v) => String(v),
+            (quality) => setDraft((d) => ({ ...d, quality })),
+            draft.format === 'png',
+          )}
+
+          <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('maxDimension')}</Text>
+          {renderChips(
+            EXPORT_MAX_DIMENSIONS,
+            draft.maxDimension,
+            (v) => (v === 0 ? t('sizeOriginal') : `${v}px`),
+            (maxDimension) => setDraft((d) => ({ ...d, maxDimension })),
+          )}
+
+          <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('targetDpi')}</Text>
+          {renderChips(EXPORT_DPIS, draft.dpi, (v) => `${v} dpi`, (dpi) => setDraft((d) => ({ ...d, dpi })))}
+
+          <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('targetFileSize')}</Text>
+          {renderChips(
+            EXPORT_TARGET_SIZES,
+            draft.targetSizeKB,
+            (v) => (v === 0 ? t('sizeNoLimit') : `< ${formatFileSize(v * 1024)}`),
+            (targetSizeKB) => setDraft((d) => ({ ...d, targetSizeKB })),
+          )}
+          {draft.targetSizeKB > 0 && (
+            <Text style={[styles.hint, { color: Colors[theme].subtleText }]}>{t('targetFileSizeHint')}</Text>
+          )}
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: Colors[theme].inputBackground }]}
+              onPress={onCancel}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionBtnText, { color: Colors[theme].text }]}>{t('cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: Colors[theme].tint }]}
+              onPress={() => onSave(draft)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionBtnText, { color: '#fff' }]}>{t('save')}</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    width: 320,
+    borderRadius: 16,
+    padding: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  sectionLabel: { fontSize: 12, fontWeight: '600', marginTop: 10, marginBottom: 6 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  chip: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 14 },
+  chipText: { fontSize: 13, fontWeight: '500' },
+  hint: { fontSize: 11, marginTop: 6 },
+  actionRow: { flexDirection: 'row', gap: 10, marginTop: 18 },
+  actionBtn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  actionBtnText: { fontSize: 15, fontWeight: '600' },
+});
@@ -13,15 +13,29 @@ import { useTranslation } from 'react-i18next';
 import Colors from '@/constants/Colors';
 import ZoomableImage from '@/components/ZoomableImage';
 import { applyEditsNative } from '@/modules/document-detection/src';
-import type { ScanResult } from '@/types';
+import { IMAGE_FORMAT_LABELS } from '@/services/exportService';
+import { DEFAULT_EDITS } from '@/utils/scanSession';
+import { imageDataUri } from '@/utils/imageFormat';
+import type { ScanResult, EditParams, ImageEncoding } from '@/types';
 
 interface Props {
+  /** Processed page without editor adjustments — edits are always applied to this */
   result: ScanResult;
-  onResultChange: (edited: ScanResult) => void;
+  /** Previously applied adjustments to restore when reopening a page */
+  initialEdits?: EditParams;
+  /** Previously edited output, shown until the first new edit is applied */
+  initialResult?: ScanResult;
+  /** Encoding of edited output, from the export profile */
+  encoding: ImageEncoding;
+  onResultChange: (edited: ScanResult, edits: EditParams) => void;
   onRescan: () => void;
   onBackToCrop: () => void;
-  onSavePng: () => void;
+  onSaveImage: () => void;
   onSavePdf: () => void;
+  /** Recognizes the page text and shows it */
+  onRecognizeText: () => void;
+  /** Shown for business cards: reads the contact details off the page */
+  onReadContact?: () => void;
 }
 
 type ToolTab = 'rotate' | 'adjust' | 'filter';
@@ -48,21 +62,32 @@ const FILTER_PRESETS: FilterPreset[] = [
   { key: 'highContrast', labelKey: 'filterHighContrast', brightness: 0, contrast: 40, saturation: 10, warmth: 0, sepia: 0, grayscale: 0 },
 ];
 
-export default function ImageEditorPanel({ result, onResultChange, onRescan, onBackToCrop, onSavePng, onSavePdf }: Props) {
+export default function ImageEditorPanel({
+  result, initialEdits = DEFAULT_EDITS, initialResult, encoding, onResultChange, onRescan, onBackToCrop, onSaveImage, onSavePdf,
+  onRecognizeText,
+  onReadContact,
+}: Props) {
   const theme = useColorScheme() ?? 'light';
   const { t } = useTranslation();
 
   const [activeTab, setActiveTab] = useState<ToolTab>('filter');
-  const [rotation, setRotation] = useState(0);
-  const [brightness, setBrightness] = useState(0);
-  const [contrast, setContrast] = useState(0);
-  const [saturation, setSaturation] = useState(0);
-  const [warmth, setWarmth] = useState(0);
-  const [sepia, setSepia] = useState(0);
-  const [grayscale, setGrayscale] = useState(0);
-  const [activeFilter, setActiveFilter] = useState('original');
-  const [previewUri, setPreviewUri] = useState(`data:image/jpeg;base64,${result.base64}`);
-  const [previewSize, setPreviewSize] = useState({ width: result.width, height: result.height });
+  const [rotation, setRotation] = useState(initialEdits.rotation);
+  const [brightness, setBrightness] = useState(initialEdits.brightness);
+  const [contrast, setContrast] = useState(initialEdits.contrast);
+  const [saturation, setSaturation] = useState(initialEdits.saturation);
+  const [warmth, setWarmth] = useState(initialEdits.warmth);
+  const [sepia, setSepia] = useState(initialEdits.sepia);
+  const [grayscale, setGrayscale] = useState(initialEdits.grayscale);
+  const [activeFilter, setActiveFilter] = useState(() => {
+    const match = FILTER_PRESETS.find((p) =>
+      p.brightness === initialEdits.brightness && p.contrast === initialEdits.contrast &&
+      p.saturation === initialEdits.saturation && p.warmth === initialEdits.warmth &&
+      p.sepia === initialEdits.sepia && p.grayscale === initialEdits.grayscale);
+    return match ? match.key : 'custom';
+  });
+  const shown = initialResult ?? result;
+  const [previewUri, setPreviewUri] = useState(imageDataUri(shown.base64));
+  const [previewSize, setPreviewSize] = useState({ width: shown.width, height: shown.height });
   const [processing, setProcessing] = useState(false);
 
   // Keep original unedited base64 — always apply edits from scratch
@@ -75,17 +100,22 @@ export default function ImageEditorPanel({ result, onResultChange, onRescan, onB
     setProcessing(true);
     try {
       const edited = await applyEditsNative(
-        originalBase64Ref.current, rotation, brightness, contrast, saturation, warmth, sepia, grayscale
+        originalBase64Ref.current,
+        { rotation, brightness, contrast, saturation, warmth, sepia, grayscale },
+        encoding,
       );
-      setPreviewUri(`data:image/jpeg;base64,${edited.base64}`);
+      setPreviewUri(imageDataUri(edited.base64));
       setPreviewSize({ width: edited.width, height: edited.height });
-      onResultChange({ base64: edited.base64, width: edited.width, height: edited.height });
+      onResultChange(
+        { base64: edited.base64, width: edited.width, height: edited.height },
+        { rotation, brightness, contrast, saturation, warmth, sepia, grayscale },
+      );
     } catch (e: any) {
       console.error('[ImageEditorPanel] Native edit failed:', e.message);
     } finally {
       setProcessing(false);
     }
-  }, [result.base64, rotation, brightness, contrast, saturation, warmth, sepia, grayscale, onResultChange]);
+  }, [result.base64, rotation, brightness, contrast, saturation, warmth, sepia, grayscale, encoding, onResultChange]);
 
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   useEffect(() => {
@@ -262,11 +292,21 @@ export default function ImageEditorPanel({ result, onResultChange, onRescan, onB
             <FontAwesome name="crop" size={13} color={Colors[theme].text} style={{ marginRight: 5 }} />
             <Text style={[styles.actionBtnText, { color: Colors[theme].text }]}>{t('backToCrop')}</Text>
           </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionBtn, { backgroundColor: Colors[theme].inputBackground }]} onPress={onRecognizeText} activeOpacity={0.7}>
+            <FontAwesome name="font" size={13} color={Colors[theme].text} style={{ marginRight: 5 }} />
+            <Text style={[styles.actionBtnText, { color: Colors[theme].text }]}>{t('recognizeText')}</Text>
+          </TouchableOpacity>
+          {onReadContact && (
+            <TouchableOpacity style={[styles.actionBtn, { backgroundColor: Colors[theme].inputBackground }]} onPress={onReadContact} activeOpacity={0.7}>
+              <FontAwesome name="address-card-o" size={13} color={Colors[theme].text} style={{ marginRight: 5 }} />
+              <Text style={[styles.actionBtnText, { color: Colors[theme].text }]}>{t('contactCard')}</Text>
+            </TouchableOpacity>
+          )}
         </View>
         <View style={[styles.actionRow, { marginTop: 8 }]}>
-          <TouchableOpacity style={[styles.actionBtn, { backgroundColor: Colors[theme].tint }]} onPress={onSavePng} activeOpacity={0.7}>
+          <TouchableOpacity style={[styles.actionBtn, { backgroundColor: Colors[theme].tint }]} onPress={onSaveImage} activeOpacity={0.7}>
             <FontAwesome name="image" size={13} color="#fff" style={{ marginRight: 5 }} />
-            <Text style={[styles.actionBtnText, { color: '#fff' }]}>{t('savePng')}</Text>
+            <Text style={[styles.actionBtnText, { color: '#fff' }]}>{t('saveImage', { format: IMAGE_FORMAT_LABELS[encoding.format] })}</Text>
           </TouchableOpacity>
           <TouchableOpacity style={[styles.actionBtn, { backgroundColor: '#ff3b30' }]} onPress={onSavePdf} activeOpacity={0.7}>
             <FontAwesome name="file-pdf-o" size={13} color="#fff" style={{ marginRight: 5 }} />
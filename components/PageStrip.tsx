@@ -0,0 +1,136 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  useColorScheme,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+import { imageDataUri } from '@/utils/imageFormat';
+import type { ScanPage } from '@/types';
+
+interface Props {
+  pages: ScanPage[];
+  activePageId: string | null;
+  onSelect: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onDelete: (id: string) => void;
+  onAddPage: () => void;
+  onClose: () => void;
+}
+
+const THUMB_HEIGHT = 64;
+
+export default function PageStrip({ pages, activePageId, onSelect, onMove, onDelete, onAddPage, onClose }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+
+  const activeIndex = pages.findIndex((p) => p.id === activePageId);
+
+  return (
+    <View style={[styles.container, { backgroundColor: Colors[theme].cardBackground }]}>
+      <View style={styles.header}>
+        <Text style={[styles.headerText, { color: Colors[theme].subtleText }]}>
+          {t('pageCount', { count: pages.length })}
+        </Text>
+        {activeIndex !== -1 && (
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.headerBtn}
+              onPress={() => onMove(pages[activeIndex].id, -1)}
+              disabled={activeIndex === 0}
+              activeOpacity={0.7}
+            >
+              <FontAwesome name="chevron-left" size={13} color={activeIndex === 0 ? Colors[theme].border : Colors[theme].tint} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.headerBtn}
+              onPress={() => onMove(pages[activeIndex].id, 1)}
+              disabled={activeIndex === pages.length - 1}
+              activeOpacity={0.7}
+            >
+              <FontAwesome name="chevron-right" size={13} color={activeIndex === pages.length - 1 ? Colors[theme].border : Colors[theme].tint} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.headerBtn} onPress={() => onDelete(pages[activeIndex].id)} activeOpacity={0.7}>
+              <FontAwesome name="trash-o" size={15} color="#ff3b30" />
+            </TouchableOpacity>
+          </View>
+        )}
+        <TouchableOpacity style={styles.headerBtn} onPress={onClose} activeOpacity={0.7}>
+          <FontAwesome name="times" size={15} color={Colors[theme].subtleText} />
+        </TouchableOpacity>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+        {pages.map((page, index) => {
+          const isActive = page.id === activePageId;
+          return (
+            <TouchableOpacity
+              key={page.id}
+              style={[styles.thumbWrap, { borderColor: isActive ? Colors[theme].tint : 'transparent' }]}
+              onPress={() => onSelect(page.id)}
+              activeOpacity={0.7}
+            >
+              <Image
+                source={{ uri: imageDataUri(page.result.base64) }}
+                style={[styles.thumb, { aspectRatio: page.result.width / page.result.height }]}
+                resizeMode="cover"
+              />
+              <View style={styles.thumbBadge}>
+                <Text style={styles.thumbBadgeText}>{index + 1}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.addTile, { backgroundColor: Colors[theme].inputBackground }]}
+          onPress={onAddPage}
+          activeOpacity={0.7}
+        >
+          <FontAwesome name="plus" size={16} color={Colors[theme].tint} />
+          <Text style={[styles.addTileText, { color: Colors[theme].tint }]}>{t('addPage')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: 6,
+    paddingBottom: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  header: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, marginBottom: 6 },
+  headerText: { flex: 1, fontSize: 12, fontWeight: '600' },
+  headerActions: { flexDirection: 'row', alignItems: 'center' },
+  headerBtn: { paddingHorizontal: 10, paddingVertical: 4 },
+  strip: { paddingHorizontal: 12, gap: 8, alignItems: 'center' },
+  thumbWrap: { borderWidth: 2, borderRadius: 8, padding: 2 },
+  thumb: { height: THUMB_HEIGHT, maxWidth: THUMB_HEIGHT * 1.5, borderRadius: 5, backgroundColor: '#000' },
+  thumbBadge: {
+    position: 'absolute',
+    right: 4,
+    bottom: 4,
+    minWidth: 16,
+    paddingHorizontal: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    alignItems: 'center',
+  },
+  thumbBadgeText: { color: '#fff', fontSize: 10, fontWeight: '700' },
+  addTile: {
+    height: THUMB_HEIGHT + 8,
+    width: THUMB_HEIGHT,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  addTileText: { fontSize: 10, fontWeight: '600' },
+});
@@ -0,0 +1,140 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+import { SUPPORTED_LANGUAGES } from '@/i18n';
+import { OCR_LANGUAGES } from '@/services/ocrService';
+import type { OcrLanguage, PageText } from '@/types';
+
+interface Props {
+  visible: boolean;
+  /** Recognized text in `language`; null while recognition runs */
+  text: PageText | null;
+  language: OcrLanguage;
+  onLanguageChange: (language: OcrLanguage) => void;
+  onShare: (text: string) => void;
+  onClose: () => void;
+}
+
+function languageLabel(code: OcrLanguage): string {
+  return SUPPORTED_LANGUAGES.find((l) => l.code === code)?.label ?? code;
+}
+
+export default function PageTextModal({ visible, text, language, onLanguageChange, onShare, onClose }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const busy = !text || text.language !== language;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity
+          activeOpacity={1}
+          style={[styles.content, { backgroundColor: Colors[theme].cardBackground }]}
+        >
+          <Text style={[styles.title, { color: Colors[theme].text }]}>{t('recognizedText')}</Text>
+
+          <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('ocrLanguage')}</Text>
+          <View style={styles.chipRow}>
+            {OCR_LANGUAGES.map((code) => {
+              const isActive = code === language;
+              return (
+                <TouchableOpacity
+                  key={code}
+                  style={[
+                    styles.chip,
+                    { backgroundColor: isActive ? Colors[theme].tint : Colors[theme].inputBackground },
+                  ]}
+                  onPress={() => onLanguageChange(code)}
+                  disabled={busy}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, { color: isActive ? '#fff' : Colors[theme].text }]}>
+                    {languageLabel(code)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={[styles.textBox, { backgroundColor: Colors[theme].inputBackground }]}>
+            {busy ? (
+              <ActivityIndicator style={styles.spinner} color={Colors[theme].tint} />
+            ) : text.text ? (
+              <ScrollView>
+                <Text selectable style={[styles.text, { color: Colors[theme].text }]}>{text.text}</Text>
+              </ScrollView>
+            ) : (
+              <Text style={[styles.empty, { color: Colors[theme].subtleText }]}>{t('noTextFound')}</Text>
+            )}
+          </View>
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: Colors[theme].inputBackground }]}
+              onPress={onClose}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionBtnText, { color: Colors[theme].text }]}>{t('close')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: Colors[theme].tint }, (busy || !text.text) && { opacity: 0.4 }]}
+              onPress={() => text && onShare(text.text)}
+              disabled={busy || !text.text}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionBtnText, { color: '#fff' }]}>{t('shareText')}</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    width: 320,
+    maxHeight: '85%',
+    borderRadius: 16,
+    padding: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  sectionLabel: { fontSize: 12, fontWeight: '600', marginTop: 10, marginBottom: 6 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  chip: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 14 },
+  chipText: { fontSize: 13, fontWeight: '500' },
+  textBox: { height: 260, borderRadius: 10, padding: 12, marginTop: 14 },
+  spinner: { flex: 1 },
+  text: { fontSize: 14, lineHeight: 20 },
+  empty: { fontSize: 14, textAlign: 'center', marginTop: 20 },
+  actionRow: { flexDirection: 'row', gap: 10, marginTop: 18 },
+  actionBtn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  actionBtnText: { fontSize: 15, fontWeight: '600' },
+});
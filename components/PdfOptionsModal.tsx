@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+  useColorScheme,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+import {
+  PDF_PAGE_SIZES,
+  PDF_SCALE_MODES,
+  PDF_MARGINS,
+  PDF_TEXT_LAYERS,
+  type PdfExportOptions,
+  type PdfMetadata,
+  type PdfTextLayer,
+} from '@/services/pdfService';
+import type { PdfPageSize, PdfScaleMode } from '@/utils/pdfLayout';
+
+interface Props {
+  visible: boolean;
+  options: PdfExportOptions;
+  metadata: PdfMetadata;
+  /** Section title per page in order; empty for pages that start no section */
+  sections: string[];
+  onCancel: () => void;
+  onExport: (options: PdfExportOptions, metadata: PdfMetadata, sections: string[]) => void;
+}
+
+const METADATA_FIELDS: { key: keyof PdfMetadata; labelKey: string }[] = [
+  { key: 'title', labelKey: 'pdfTitle' },
+  { key: 'subject', labelKey: 'pdfSubject' },
+  { key: 'keywords', labelKey: 'pdfKeywords' },
+];
+
+const PAGE_SIZE_LABELS: Record<PdfPageSize, string> = {
+  a4: 'pageSizeA4',
+  letter: 'pageSizeLetter',
+  legal: 'pageSizeLegal',
+  a5: 'pageSizeA5',
+  fit: 'pageSizeFit',
+};
+
+const SCALE_MODE_LABELS: Record<PdfScaleMode, string> = {
+  fit: 'scaleFit',
+  fill: 'scaleFill',
+  actual: 'scaleActual',
+};
+
+const MARGIN_LABELS = ['marginNone', 'marginSmall', 'marginNormal', 'marginLarge'];
+
+const TEXT_LAYER_LABELS: Record<PdfTextLayer, string> = {
+  existing: 'textLayerExisting',
+  recognize: 'textLayerRecognize',
+};
+
+export default function PdfOptionsModal({ visible, options, metadata, sections, onCancel, onExport }: Props) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState(options);
+  const [metaDraft, setMetaDraft] = useState(metadata);
+  const [sectionDraft, setSectionDraft] = useState(sections);
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(options);
+    setMetaDraft(metadata);
+    setSectionDraft(sections);
+  }, [visible, options, metadata, sections]);
+
+  const inputStyle = [styles.input, { backgroundColor: Colors[theme].inputBackground, color: Colors[theme].text }];
+
+  const renderChips = <T,>(
+    values: readonly T[],
+    selected: T,
+    label: (v: T, i: number) => string,
+    onSelect: (v: T) => void,
+    disabled = false,
+  ) => (
+    <View style={[styles.chipRow, disabled && { opacity: 0.4 }]}>
+      {values.map((v, i) => {
+        const isActive = v === selected;
+        return (
+          <TouchableOpacity
+            key={String(v)}
+            style={[
+              styles.chip,
+              { backgroundColor: isActive ? Colors[theme].tint : Colors[theme].inputBackground },
+            ]}
+            onPress={() => onSelect(v)}
+            disabled={disabled}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, { color: isActive ? '#fff' : Colors[theme].text }]}>{label(v, i)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onCancel}>
+        <TouchableOpacity
+          activeOpacity={1}
+          style={[styles.content, { backgroundColor: Colors[theme].cardBackground }]}
+        >
+          <Text style={[styles.title, { color: Colors[theme].text }]}>{t('pdfOptions')}</Text>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('pageSize')}</Text>
+            {renderChips(PDF_PAGE_SIZES, draft.pageSize, (v) => t(PAGE_SIZE_LABELS[v]), (pageSize) =>
+              setDraft((d) => ({ ...d, pageSize })))}
+
+            <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('margins')}</Text>
+            {renderChips(PDF_MARGINS, draft.margin, (_v, i) => t(MARGIN_LABELS[i]), (margin) =>
+              setDraft((d) => ({ ...d, margin })))}
+
+            <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('scaleMode')}</Text>
+            {renderChips(
+              PDF_SCALE_MODES,
+              draft.scaleMode,
+              (v) => t(SCALE_MODE_LABELS[v]),
+              (scaleMode) => setDraft((d) => ({ ...d, scaleMode })),
+              draft.pageSize === 'fit',
+            )}
+
+            <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('textLayer')}</Text>
+            {renderChips(PDF_TEXT_LAYERS, draft.textLayer, (v) => t(TEXT_LAYER_LABELS[v]), (textLayer) =>
+              setDraft((d) => ({ ...d, textLayer })))}
+
+            <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('pdfDocument')}</Text>
+            {METADATA_FIELDS.map((field) => (
+              <TextInput
+                key={field.key}
+                style={inputStyle}
+                value={metaDraft[field.key]}
+                onChangeText={(value) => setMetaDraft((m) => ({ ...m, [field.key]: value }))}
+                placeholder={t(field.labelKey)}
+                placeholderTextColor={Colors[theme].subtleText}
+              />
+            ))}
+            <TextInput
+              style={inputStyle}
+              value={draft.author}
+              onChangeText={(author) => setDraft((d) => ({ ...d, author }))}
+              placeholder={t('pdfAuthor')}
+              placeholderTextColor={Colors[theme].subtleText}
+              autoCorrect={false}
+            />
+
+            <Text style={[styles.sectionLabel, { color: Colors[theme].subtleText }]}>{t('pdfSections')}</Text>
+            <Text style={[styles.hint, { color: Colors[theme].subtleText }]}>{t('pdfSectionsHint')}</Text>
+            {sectionDraft.map((section, i) => (
+              <View key={i} style={styles.sectionRow}>
+                <Text style={[styles.pageNumber, { color: Colors[theme].subtleText }]}>{i + 1}</Text>
+                <TextInput
+                  style={[inputStyle, styles.sectionInput]}
+                  value={section}
+                  onChangeText={(value) => setSectionDraft((list) => list.map((s, j) => (j === i ? value : s)))}
+                  placeholder={t('pdfSectionPlaceholder')}
+                  placeholderTextColor={Colors[theme].subtleText}
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: Colors[theme].inputBackground }]}
+              onPress={onCancel}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionBtnText, { color: Colors[theme].text }]}>{t('cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: '#ff3b30' }]}
+              onPress={() => onExport(draft, metaDraft, sectionDraft)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.actionBtnText, { color: '#fff' }]}>{t('exportPdf')}</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    width: 320,
+    maxHeight: '85%',
+    borderRadius: 16,
+    padding: 16,
+  },
+  body: { flexGrow: 0 },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  sectionLabel: { fontSize: 12, fontWeight: '600', marginTop: 10, marginBottom: 6 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  chip: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 14 },
+  chipText: { fontSize: 13, fontWeight: '500' },
+  hint: { fontSize: 11, marginBottom: 6 },
+  input: { fontSize: 15, paddingHorizontal: 12, paddingVertical: 9, borderRadius: 10, marginBottom: 6 },
+  sectionRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  pageNumber: { width: 22, fontSize: 13, fontWeight: '600', textAlign: 'right', marginBottom: 6 },
+  sectionInput: { flex: 1 },
+  actionRow: { flexDirection: 'row', gap: 10, marginTop: 18 },
+  actionBtn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  actionBtnText: { fontSize: 15, fontWeight: '600' },
+});
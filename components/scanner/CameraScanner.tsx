@@ -28,6 +28,10 @@ interface CameraScannerProps {
     base64: string,
   ) => void;
   onPickLibrary: () => void;
+  /** When set, shows a close button that leaves the camera without capturing */
+  onCancel?: () => void;
+  /** Detects the long, narrow outline of a receipt instead of a page */
+  receipt?: boolean;
 }
 
 const OVERLAY_FILL = 'rgba(0,120,255,0.25)';
@@ -38,6 +42,8 @@ export default function CameraScanner({
   processorRef,
   onCapture,
   onPickLibrary,
+  onCancel,
+  receipt = false,
 }: CameraScannerProps) {
   const { t } = useTranslation();
   const cameraRef = useRef<CameraView>(null);
@@ -117,7 +123,7 @@ export default function CameraScanner({
       if (snap?.base64) {
         let detected: ScannerCorners | null = null;
         try {
-          detected = await detectDocument(snap.base64);
+          detected = await detectDocument(snap.base64, { receipt });
         } catch {}
 
         if (detected) {
@@ -148,7 +154,7 @@ export default function CameraScanner({
     if (!isCapturing) {
       timerRef.current = setTimeout(detectLoop, 400);
     }
-  }, [isCapturing, processorRef, lerpCorners, remapCornersForPreview]);
+  }, [isCapturing, processorRef, receipt, lerpCorners, remapCornersForPreview]);
 
   // Start/stop detection loop based on camera readiness
   useEffect(() => {
@@ -316,6 +322,12 @@ export default function CameraScanner({
           </Text>
         </View>
 
+        {onCancel && (
+          <TouchableOpacity style={styles.closeBtn} onPress={onCancel} activeOpacity={0.7}>
+            <FontAwesome name="times" size={20} color="#fff" />
+          </TouchableOpacity>
+        )}
+
         {/* Zoom indicator */}
         {zoom > 0.01 && (
           <View style={styles.zoomIndicator} pointerEvents="none">
@@ -420,6 +432,17 @@ const styles = StyleSheet.create({
     borderRadius: 20,
     overflow: 'hidden',
   },
+  closeBtn: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   zoomIndicator: {
     position: 'absolute',
     bottom: 12,
@@ -7,10 +7,15 @@ import {
   LayoutChangeEvent,
   GestureResponderEvent,
 } from 'react-native';
-import type { ScannerCorners, ScannerCorner } from '@/types';
+import type { ScannerCorners, ScannerCorner, PageCurves, SpreadGutter } from '@/types';
+import { edgePoint } from '@/utils/pageCurves';
+import { gutterFraction, gutterPoints } from '@/utils/spreadSplit';
 
 const HANDLE_SIZE = 36;
 const HANDLE_HIT_RADIUS = 60;
+const CURVE_HANDLE_SIZE = 24;
+const CURVE_SEGMENTS = 16;
+const GUTTER_COLOR = '#ff9500';
 const MAGNIFIER_SIZE = 120;
 const MAGNIFIER_ZOOM = 3;
 const MAGNIFIER_OFFSET_Y = -80; // show above touch point
@@ -21,27 +26,73 @@ interface CornerSelectorProps {
   imageHeight: number;
   corners: ScannerCorners;
   onCornersChange: (corners: ScannerCorners) => void;
+  /** Book mode edge curves; when set, top and bottom edges get two extra handles each */
+  curves?: PageCurves | null;
+  onCurvesChange?: (curves: PageCurves) => void;
+  /** Two-page spread gutter; when set, it is drawn with a handle on the top and bottom edge */
+  gutter?: SpreadGutter | null;
+  onGutterChange?: (gutter: SpreadGutter) => void;
 }
 
 type CornerKey = 'tl' | 'tr' | 'br' | 'bl';
 const CORNER_KEYS: CornerKey[] = ['tl', 'tr', 'br', 'bl'];
 
+type CurveKey = 'top0' | 'top1' | 'bottom0' | 'bottom1';
+const CURVE_KEYS: CurveKey[] = ['top0', 'top1', 'bottom0', 'bottom1'];
+
+type GutterKey = 'gutterTop' | 'gutterBottom';
+const GUTTER_KEYS: GutterKey[] = ['gutterTop', 'gutterBottom'];
+
+type HandleKey = CornerKey | CurveKey | GutterKey;
+
+function isCurveKey(key: HandleKey): key is CurveKey {
+  return (CURVE_KEYS as HandleKey[]).includes(key);
+}
+
+function isGutterKey(key: HandleKey): key is GutterKey {
+  return key === 'gutterTop' || key === 'gutterBottom';
+}
+
+function curvePoint(curves: PageCurves, key: CurveKey): ScannerCorner {
+  return key.startsWith('top') ? curves.top[Number(key.slice(3))] : curves.bottom[Number(key.slice(6))];
+}
+
+function withCurvePoint(curves: PageCurves, key: CurveKey, point: ScannerCorner): PageCurves {
+  const edge = key.startsWith('top') ? 'top' : 'bottom';
+  const index = Number(key.slice(edge.length));
+  const next: [ScannerCorner, ScannerCorner] = [...curves[edge]];
+  next[index] = point;
+  return { ...curves, [edge]: next };
+}
+
 export default function CornerSelector({
   imageUri,
   imageWidth,
   imageHeight,
   corners,
   onCornersChange,
+  curves,
+  onCurvesChange,
+  gutter,
+  onGutterChange,
 }: CornerSelectorProps) {
   const [layout, setLayout] = useState({ width: 0, height: 0 });
-  const activeCornerRef = useRef<CornerKey | null>(null);
-  const [activeCorner, setActiveCorner] = useState<CornerKey | null>(null);
+  const activeCornerRef = useRef<HandleKey | null>(null);
+  const [activeCorner, setActiveCorner] = useState<HandleKey | null>(null);
 
   // Use refs so PanResponder always sees the latest values
   const cornersRef = useRef(corners);
   cornersRef.current = corners;
   const onCornersChangeRef = useRef(onCornersChange);
   onCornersChangeRef.current = onCornersChange;
+  const curvesRef = useRef(curves);
+  curvesRef.current = curves;
+  const onCurvesChangeRef = useRef(onCurvesChange);
+  onCurvesChangeRef.current = onCurvesChange;
+  const gutterRef = useRef(gutter);
+  gutterRef.current = gutter;
+  const onGutterChangeRef = useRef(onGutterChange);
+  onGutterChangeRef.current = onGutterChange;
   const layoutRef = useRef(layout);
   layoutRef.current = layout;
 
@@ -98,11 +149,22 @@ export default function CornerSelector({
           const { locationX, locationY } = evt.nativeEvent;
           const { dw, dh, ox, oy } = getDisplayMetrics();
 
-          // Find closest corner
-          let best: CornerKey | null = null;
+          // Find closest corner, curve or gutter handle
+          const curvesNow = curvesRef.current;
+          const gutterNow = gutterRef.current && gutterPoints(cornersRef.current, gutterRef.current);
+          const keys: HandleKey[] = [
+            ...CORNER_KEYS,
+            ...(curvesNow ? CURVE_KEYS : []),
+            ...(gutterNow ? GUTTER_KEYS : []),
+          ];
+          let best: HandleKey | null = null;
           let bestDist = Infinity;
-          for (const key of CORNER_KEYS) {
-            const c = cornersRef.current[key];
+          for (const key of keys) {
+            const c = isCurveKey(key)
+              ? curvePoint(curvesNow!, key)
+              : isGutterKey(key)
+                ? key === 'gutterTop' ? gutterNow!.top : gutterNow!.bottom
+                : cornersRef.current[key];
             const sx = ox + c.x * dw;
             const sy = oy + c.y * dh;
             const d = Math.hypot(sx - locationX, sy - locationY);
@@ -124,6 +186,24 @@ export default function CornerSelector({
             x: Math.max(0, Math.min(1, (locationX - ox) / (dw || 1))),
             y: Math.max(0, Math.min(1, (locationY - oy) / (dh || 1))),
           };
+          if (isGutterKey(key)) {
+            // Gutter ends slide along their edge rather than following the finger freely
+            const c = cornersRef.current;
+            if (gutterRef.current) {
+              onGutterChangeRef.current?.(
+                key === 'gutterTop'
+                  ? { ...gutterRef.current, top: gutterFraction(c.tl, c.tr, normalized) }
+                  : { ...gutterRef.current, bottom: gutterFraction(c.bl, c.br, normalized) },
+              );
+            }
+            return;
+          }
+          if (isCurveKey(key)) {
+            if (curvesRef.current) {
+              onCurvesChangeRef.current?.(withCurvePoint(curvesRef.current, key, normalized));
+            }
+            return;
+          }
           onCornersChangeRef.current({
             ...cornersRef.current,
             [key]: normalized,
@@ -141,7 +221,7 @@ export default function CornerSelector({
     setLayout({ width: e.nativeEvent.layout.width, height: e.nativeEvent.layout.height });
   }, []);
 
-  const renderLine = (from: ScannerCorner, to: ScannerCorner, key: string) => {
+  const renderLine = (from: ScannerCorner, to: ScannerCorner, key: string, color = '#007aff') => {
     const s1 = toScreen(from);
     const s2 = toScreen(to);
     const length = Math.hypot(s2.x - s1.x, s2.y - s1.y);
@@ -156,7 +236,7 @@ export default function CornerSelector({
           top: s1.y - 1,
           width: length,
           height: 2,
-          backgroundColor: '#007aff',
+          backgroundColor: color,
           transformOrigin: 'left center',
           transform: [{ rotate: `${angle}rad` }],
         }}
@@ -164,6 +244,19 @@ export default function CornerSelector({
     );
   };
 
+  // Curved edge drawn as short straight segments
+  const renderCurve = (
+    start: ScannerCorner,
+    controls: [ScannerCorner, ScannerCorner],
+    end: ScannerCorner,
+    key: string,
+  ) => {
+    const points = Array.from({ length: CURVE_SEGMENTS + 1 }, (_, i) =>
+      edgePoint(start, controls, end, i / CURVE_SEGMENTS),
+    );
+    return points.slice(1).map((p, i) => renderLine(points[i], p, `${key}-${i}`));
+  };
+
   const renderHandle = (key: CornerKey) => {
     const sc = toScreen(corners[key]);
     const isActive = activeCorner === key;
@@ -184,11 +277,65 @@ export default function CornerSelector({
     );
   };
 
+  const renderCurveHandle = (key: CurveKey) => {
+    if (!curves) return null;
+    const sc = toScreen(curvePoint(curves, key));
+    const isActive = activeCorner === key;
+    return (
+      <View
+        key={key}
+        pointerEvents="none"
+        style={[
+          styles.curveHandle,
+          {
+            left: sc.x - CURVE_HANDLE_SIZE / 2,
+            top: sc.y - CURVE_HANDLE_SIZE / 2,
+          },
+        ]}
+      >
+        <View style={[styles.curveHandleInner, isActive && styles.handleInnerActive]} />
+      </View>
+    );
+  };
+
+  const renderGutter = () => {
+    if (!gutter) return null;
+    const points = gutterPoints(corners, gutter);
+    return (
+      <>
+        {renderLine(points.top, points.bottom, 'gutter', GUTTER_COLOR)}
+        {GUTTER_KEYS.map((key) => {
+          const sc = toScreen(key === 'gutterTop' ? points.top : points.bottom);
+          return (
+            <View
+              key={key}
+              pointerEvents="none"
+              style={[
+                styles.curveHandle,
+                {
+                  left: sc.x - CURVE_HANDLE_SIZE / 2,
+                  top: sc.y - CURVE_HANDLE_SIZE / 2,
+                },
+              ]}
+            >
+              <View style={[styles.gutterHandleInner, activeCorner === key && styles.handleInnerActive]} />
+            </View>
+          );
+        })}
+      </>
+    );
+  };
+
   // Magnifier: shows a zoomed-in circle around the active corner
   const renderMagnifier = () => {
     if (!activeCorner || displayW <= 0 || displayH <= 0) return null;
 
-    const corner = corners[activeCorner];
+    const corner = isCurveKey(activeCorner)
+      ? curves ? curvePoint(curves, activeCorner) : null
+      : isGutterKey(activeCorner)
+        ? gutter ? gutterPoints(corners, gutter)[activeCorner === 'gutterTop' ? 'top' : 'bottom'] : null
+        : corners[activeCorner];
+    if (!corner) return null;
     const sc = toScreen(corner);
 
     // Position magnifier above the touch point, keep it within bounds
@@ -263,8 +410,19 @@ export default function CornerSelector({
             resizeMode="stretch"
           />
           <View style={StyleSheet.absoluteFill} {...panResponder.panHandlers}>
-            {pairs.map(([a, b]) => renderLine(corners[a], corners[b], `${a}-${b}`))}
+            {curves ? (
+              <>
+                {renderCurve(corners.tl, curves.top, corners.tr, 'top')}
+                {renderLine(corners.tr, corners.br, 'tr-br')}
+                {renderCurve(corners.bl, curves.bottom, corners.br, 'bottom')}
+                {renderLine(corners.bl, corners.tl, 'bl-tl')}
+              </>
+            ) : (
+              pairs.map(([a, b]) => renderLine(corners[a], corners[b], `${a}-${b}`))
+            )}
             {CORNER_KEYS.map(renderHandle)}
+            {curves && CURVE_KEYS.map(renderCurveHandle)}
+            {renderGutter()}
           </View>
           {renderMagnifier()}
         </>
@@ -293,6 +451,29 @@ const styles = StyleSheet.create({
     borderWidth: 3,
     borderColor: '#007aff',
   },
+  curveHandle: {
+    position: 'absolute',
+    width: CURVE_HANDLE_SIZE,
+    height: CURVE_HANDLE_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  curveHandleInner: {
+    width: CURVE_HANDLE_SIZE,
+    height: CURVE_HANDLE_SIZE,
+    borderRadius: CURVE_HANDLE_SIZE / 2,
+    backgroundColor: 'rgba(255,255,255,0.6)',
+    borderWidth: 3,
+    borderColor: '#007aff',
+  },
+  gutterHandleInner: {
+    width: CURVE_HANDLE_SIZE,
+    height: CURVE_HANDLE_SIZE,
+    borderRadius: CURVE_HANDLE_SIZE / 2,
+    backgroundColor: 'rgba(255,149,0,0.5)',
+    borderWidth: 3,
+    borderColor: GUTTER_COLOR,
+  },
   handleInnerActive: {
     backgroundColor: 'rgba(0,122,255,0.7)',
     borderWidth: 4,
@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  Image,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+import type { EnhanceMode, FilterPreviews } from '@/types';
+
+interface EnhanceModePickerProps {
+  mode: EnhanceMode;
+  previews: FilterPreviews | null;
+  onModeChange: (mode: EnhanceMode) => void;
+}
+
+const MODES: EnhanceMode[] = ['color', 'magic', 'gray', 'bw', 'whiteboard', 'photo'];
+const THUMB_SIZE = 52;
+
+export default function EnhanceModePicker({ mode, previews, onModeChange }: EnhanceModePickerProps) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: Colors[theme].subtleText }]}>{t('enhanceMode')}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {MODES.map((m) => {
+          const isActive = m === mode;
+          const thumb = previews?.[m];
+          return (
+            <TouchableOpacity
+              key={m}
+              style={[styles.item, { borderColor: isActive ? Colors[theme].tint : 'transparent' }]}
+              onPress={() => onModeChange(m)}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.thumb, { backgroundColor: Colors[theme].inputBackground }]}>
+                {thumb ? (
+                  <Image source={{ uri: `data:image/jpeg;base64,${thumb}` }} style={styles.thumbImage} resizeMode="cover" />
+                ) : (
+                  <ActivityIndicator size="small" color={Colors[theme].subtleText} />
+                )}
+              </View>
+              <Text style={[styles.label, { color: isActive ? Colors[theme].tint : Colors[theme].subtleText }]}>
+                {t(m)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 12 },
+  title: { fontSize: 12, fontWeight: '600', marginBottom: 6 },
+  row: { flexGrow: 1, justifyContent: 'center', gap: 10 },
+  item: { alignItems: 'center', borderWidth: 2, borderRadius: 10, padding: 3 },
+  thumb: {
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: 8,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  thumbImage: { width: '100%', height: '100%' },
+  label: { fontSize: 11, marginTop: 3, fontWeight: '500' },
+});
@@ -2,12 +2,42 @@ import React, { useRef, useImperativeHandle, forwardRef, useCallback } from 'rea
 import { View, StyleSheet } from 'react-native';
 import WebView, { WebViewMessageEvent } from 'react-native-webview';
 import { getScannerHtml } from '@/utils/scannerHtml';
-import type { ScannerCorners, EnhanceMode, ScanResult, FilterPreviews } from '@/types';
+import { CENTER_GUTTER } from '@/utils/spreadSplit';
+import type { ScannerCorners, EnhanceMode, ScanResult, FilterPreviews, ProcessOptions, PageCurves, SpreadGutter, ImageEncoding } from '@/types';
 
 export interface ImageProcessorHandle {
-  process(base64: string, corners: ScannerCorners, mode: EnhanceMode): Promise<ScanResult>;
-  detect(base64: string): Promise<ScannerCorners | null>;
-  previewFilters(base64: string, corners: ScannerCorners): Promise<FilterPreviews>;
+  /**
+   * With `curves`, dewarps a curved book page instead of applying a single homography.
+   * `aspectRatio` (width/height) overrides the proportions taken from the edge lengths.
+   */
+  process(
+    base64: string,
+    corners: ScannerCorners,
+    mode: EnhanceMode,
+    options: ProcessOptions,
+    curves?: PageCurves | null,
+    encoding?: ImageEncoding,
+    aspectRatio?: number | null,
+  ): Promise<ScanResult>;
+  /** `receipt` accepts the long, narrow quads that document detection rejects */
+  detect(base64: string, receipt?: boolean): Promise<ScannerCorners | null>;
+  /**
+   * Joins `lower` below `upper` where the two overlap, e.g. consecutive
+   * captures of a long receipt; without a matching overlap they are stacked.
+   */
+  stitch(upper: string, lower: string, encoding?: ImageEncoding): Promise<ScanResult>;
+  /** Measures residual skew of a crop and returns corners that straighten it */
+  deskew(base64: string, corners: ScannerCorners): Promise<{ angle: number; corners: ScannerCorners }>;
+  /** Clockwise rotation (0/90/180/270) that makes the page text upright; 0 when unsure */
+  detectOrientation(base64: string): Promise<number>;
+  /** Gutter line of a two-page spread inside the crop; the centre line when none is found */
+  detectGutter(base64: string, corners: ScannerCorners): Promise<SpreadGutter>;
+  previewFilters(
+    base64: string,
+    corners: ScannerCorners,
+    options: ProcessOptions,
+    curves?: PageCurves | null,
+  ): Promise<FilterPreviews>;
 }
 
 const ImageProcessor = forwardRef<ImageProcessorHandle, {}>((_props, ref) => {
@@ -19,12 +49,35 @@ const ImageProcessor = forwardRef<ImageProcessorHandle, {}>((_props, ref) => {
   const detectPendingRef = useRef<{
     resolve: (r: ScannerCorners | null) => void;
   } | null>(null);
+  const skewPendingRef = useRef<{
+    id: number;
+    resolve: (r: { angle: number; corners: ScannerCorners }) => void;
+    /** Settles with the crop unchanged */
+    cancel: () => void;
+  } | null>(null);
+  const skewIdRef = useRef(0);
+  const orientationPendingRef = useRef<{
+    id: number;
+    resolve: (r: number) => void;
+    /** Settles as upright */
+    cancel: () => void;
+  } | null>(null);
+  const orientationIdRef = useRef(0);
+  const gutterPendingRef = useRef<{
+    id: number;
+    resolve: (r: SpreadGutter) => void;
+    /** Settles with the centre line */
+    cancel: () => void;
+  } | null>(null);
+  const gutterIdRef = useRef(0);
   const filterPreviewsPendingRef = useRef<{
     resolve: (r: FilterPreviews) => void;
     reject: (e: Error) => void;
   } | null>(null);
   const chunksRef = useRef<string[]>([]);
-  const chunkMetaRef = useRef<{ total: number; width: number; height: number }>({ total: 0, width: 0, height: 0 });
+  const chunkMetaRef = useRef<{ total: number; width: number; height: number; skewAngle?: number }>({
+    total: 0, width: 0, height: 0,
+  });
 
   const onMessage = useCallback((event: WebViewMessageEvent) => {
     try {
@@ -35,21 +88,22 @@ const ImageProcessor = forwardRef<ImageProcessorHandle, {}>((_props, ref) => {
           base64: msg.base64,
           width: msg.width,
           height: msg.height,
+          skewAngle: msg.skewAngle,
         });
         pendingRef.current = null;
       } else if (msg.type === 'resultChunk' && pendingRef.current) {
         if (msg.index === 0) {
           chunksRef.current = new Array(msg.total);
-          chunkMetaRef.current = { total: msg.total, width: msg.width, height: msg.height };
+          chunkMetaRef.current = { total: msg.total, width: msg.width, height: msg.height, skewAngle: msg.skewAngle };
         }
         chunksRef.current[msg.index] = msg.data;
         const allReceived = chunksRef.current.length === chunkMetaRef.current.total &&
           chunksRef.current.every((c) => c !== undefined);
         if (allReceived) {
           const fullBase64 = chunksRef.current.join('');
-          const { width, height } = chunkMetaRef.current;
+          const { width, height, skewAngle } = chunkMetaRef.current;
           console.log(`[ImageProcessor] chunks assembled → out=${width}x${height}, b64len=${fullBase64.length}`);
-          pendingRef.current.resolve({ base64: fullBase64, width, height });
+          pendingRef.current.resolve({ base64: fullBase64, width, height, skewAngle });
           pendingRef.current = null;
           chunksRef.current = [];
         }
@@ -59,11 +113,23 @@ const ImageProcessor = forwardRef<ImageProcessorHandle, {}>((_props, ref) => {
       } else if (msg.type === 'corners' && detectPendingRef.current) {
         detectPendingRef.current.resolve(msg.corners ?? null);
         detectPendingRef.current = null;
+      } else if (msg.type === 'skew' && skewPendingRef.current && skewPendingRef.current.id === msg.id) {
+        skewPendingRef.current.resolve({ angle: msg.angle ?? 0, corners: msg.corners });
+        skewPendingRef.current = null;
+      } else if (msg.type === 'orientation' && orientationPendingRef.current && orientationPendingRef.current.id === msg.id) {
+        orientationPendingRef.current.resolve(msg.rotation ?? 0);
+        orientationPendingRef.current = null;
+      } else if (msg.type === 'gutter' && gutterPendingRef.current && gutterPendingRef.current.id === msg.id) {
+        gutterPendingRef.current.resolve(msg.gutter);
+        gutterPendingRef.current = null;
       } else if (msg.type === 'filterPreviews' && filterPreviewsPendingRef.current) {
         filterPreviewsPendingRef.current.resolve({
           bw: msg.bw,
           gray: msg.gray,
           color: msg.color,
+          magic: msg.magic,
+          whiteboard: msg.whiteboard,
+          photo: msg.photo,
         });
         filterPreviewsPendingRef.current = null;
       } else if (msg.type === 'error' && filterPreviewsPendingRef.current) {
@@ -75,59 +141,169 @@ const ImageProcessor = forwardRef<ImageProcessorHandle, {}>((_props, ref) => {
     }
   }, []);
 
+  // Sends base64 via injectJavaScript to avoid iOS postMessage size limits
+  const injectChunks = useCallback((base64: string) => {
+    const CHUNK = 100000;
+    const total = Math.ceil(base64.length / CHUNK);
+    for (let i = 0; i < total; i++) {
+      const chunk = base64.substring(i * CHUNK, (i + 1) * CHUNK);
+      webViewRef.current!.injectJavaScript(
+        `receiveProcessChunk(${i},${total},'${chunk}'); true;`
+      );
+    }
+  }, []);
+
+  // Registers a result request that fails after `timeoutMs`
+  const awaitResult = useCallback((timeoutMs: number, resolve: (r: ScanResult) => void, reject: (e: Error) => void) => {
+    const timer = setTimeout(() => {
+      if (pendingRef.current) {
+        pendingRef.current = null;
+        chunksRef.current = [];
+        reject(new Error('Processing timed out'));
+      }
+    }, timeoutMs);
+    pendingRef.current = {
+      resolve: (r) => { clearTimeout(timer); resolve(r); },
+      reject: (e) => { clearTimeout(timer); reject(e); },
+    };
+  }, []);
+
   useImperativeHandle(ref, () => ({
-    process(base64: string, corners: ScannerCorners, mode: EnhanceMode): Promise<ScanResult> {
+    process(
+      base64: string,
+      corners: ScannerCorners,
+      mode: EnhanceMode,
+      options: ProcessOptions,
+      curves?: PageCurves | null,
+      encoding?: ImageEncoding,
+      aspectRatio?: number | null,
+    ): Promise<ScanResult> {
       return new Promise((resolve, reject) => {
         if (!webViewRef.current) {
           reject(new Error('WebView not ready'));
           return;
         }
-        const timer = setTimeout(() => {
-          if (pendingRef.current) {
-            pendingRef.current = null;
-            chunksRef.current = [];
-            reject(new Error('Processing timed out'));
-          }
-        }, 30000);
-        pendingRef.current = {
-          resolve: (r) => { clearTimeout(timer); resolve(r); },
-          reject: (e) => { clearTimeout(timer); reject(e); },
-        };
-        // Send base64 via injectJavaScript to avoid iOS postMessage size limits
-        const CHUNK = 100000;
-        const total = Math.ceil(base64.length / CHUNK);
-        for (let i = 0; i < total; i++) {
-          const chunk = base64.substring(i * CHUNK, (i + 1) * CHUNK);
-          webViewRef.current!.injectJavaScript(
-            `receiveProcessChunk(${i},${total},'${chunk}'); true;`
-          );
-        }
+        // Full-resolution captures are warped in tiles and can take a while on older devices
+        awaitResult(60000, resolve, reject);
+        injectChunks(base64);
         // Trigger processing after all chunks sent
         const cornersJson = JSON.stringify(corners);
+        const optionsJson = JSON.stringify(options);
+        const curvesJson = JSON.stringify(curves ?? null);
+        const encodingJson = JSON.stringify(encoding ?? null);
+        const aspectJson = JSON.stringify(aspectRatio ?? null);
         webViewRef.current!.injectJavaScript(
-          `startProcess(${cornersJson},'${mode}'); true;`
+          `startProcess(${cornersJson},'${mode}',${optionsJson},${curvesJson},${encodingJson},${aspectJson}); true;`
         );
       });
     },
-    detect(base64: string): Promise<ScannerCorners | null> {
+    stitch(upper: string, lower: string, encoding?: ImageEncoding): Promise<ScanResult> {
+      return new Promise((resolve, reject) => {
+        if (!webViewRef.current) {
+          reject(new Error('WebView not ready'));
+          return;
+        }
+        awaitResult(60000, resolve, reject);
+        injectChunks(upper);
+        webViewRef.current.injectJavaScript('holdStitchUpper(); true;');
+        injectChunks(lower);
+        webViewRef.current.injectJavaScript(`startStitch(${JSON.stringify(encoding ?? null)}); true;`);
+      });
+    },
+    detect(base64: string, receipt = false): Promise<ScannerCorners | null> {
       return new Promise((resolve) => {
         if (!webViewRef.current) {
           resolve(null);
           return;
         }
         detectPendingRef.current = { resolve };
-        const payload = JSON.stringify({ type: 'detect', base64 });
+        const payload = JSON.stringify({ type: 'detect', base64, receipt });
+        webViewRef.current.postMessage(payload);
+      });
+    },
+    deskew(base64: string, corners: ScannerCorners): Promise<{ angle: number; corners: ScannerCorners }> {
+      return new Promise((resolve) => {
+        const unchanged = { angle: 0, corners };
+        if (!webViewRef.current) {
+          resolve(unchanged);
+          return;
+        }
+        // Deskew is optional: a newer request, a timeout or a dead WebView leaves the crop as it is
+        skewPendingRef.current?.cancel();
+        const id = ++skewIdRef.current;
+        const timer = setTimeout(() => {
+          if (skewPendingRef.current?.id !== id) return;
+          skewPendingRef.current = null;
+          resolve(unchanged);
+        }, 60000);
+        skewPendingRef.current = {
+          id,
+          resolve: (r) => { clearTimeout(timer); resolve(r); },
+          cancel: () => { clearTimeout(timer); resolve(unchanged); },
+        };
+        const payload = JSON.stringify({ type: 'deskew', id, base64, corners });
+        webViewRef.current.postMessage(payload);
+      });
+    },
+    detectOrientation(base64: string): Promise<number> {
+      return new Promise((resolve) => {
+        if (!webViewRef.current) {
+          resolve(0);
+          return;
+        }
+        // Like deskew, a newer request, a timeout or a dead WebView leaves the page as captured
+        orientationPendingRef.current?.cancel();
+        const id = ++orientationIdRef.current;
+        const timer = setTimeout(() => {
+          if (orientationPendingRef.current?.id !== id) return;
+          orientationPendingRef.current = null;
+          resolve(0);
+        }, 60000);
+        orientationPendingRef.current = {
+          id,
+          resolve: (r) => { clearTimeout(timer); resolve(r); },
+          cancel: () => { clearTimeout(timer); resolve(0); },
+        };
+        const payload = JSON.stringify({ type: 'detectOrientation', id, base64 });
+        webViewRef.current.postMessage(payload);
+      });
+    },
+    detectGutter(base64: string, corners: ScannerCorners): Promise<SpreadGutter> {
+      return new Promise((resolve) => {
+        if (!webViewRef.current) {
+          resolve(CENTER_GUTTER);
+          return;
+        }
+        // A newer request, a timeout or a dead WebView splits the spread down the middle
+        gutterPendingRef.current?.cancel();
+        const id = ++gutterIdRef.current;
+        const timer = setTimeout(() => {
+          if (gutterPendingRef.current?.id !== id) return;
+          gutterPendingRef.current = null;
+          resolve(CENTER_GUTTER);
+        }, 60000);
+        gutterPendingRef.current = {
+          id,
+          resolve: (r) => { clearTimeout(timer); resolve(r); },
+          cancel: () => { clearTimeout(timer); resolve(CENTER_GUTTER); },
+        };
+        const payload = JSON.stringify({ type: 'detectGutter', id, base64, corners });
         webViewRef.current.postMessage(payload);
       });
     },
-    previewFilters(base64: string, corners: ScannerCorners): Promise<FilterPreviews> {
+    previewFilters(
+      base64: string,
+      corners: ScannerCorners,
+      options: ProcessOptions,
+      curves?: PageCurves | null,
+    ): Promise<FilterPreviews> {
       return new Promise((resolve, reject) => {
         if (!webViewRef.current) {
           reject(new Error('WebView not ready'));
           return;
         }
         filterPreviewsPendingRef.current = { resolve, reject };
-        const payload = JSON.stringify({ type: 'previewFilters', base64, corners });
+        const payload = JSON.stringify({ type: 'previewFilters', base64, corners, options, curves: curves ?? null });
         webViewRef.current.postMessage(payload);
       });
     },
@@ -0,0 +1,200 @@
+import React from 'react';
+import { View, Text, Switch, TouchableOpacity, StyleSheet, useColorScheme } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { useTranslation } from 'react-i18next';
+import Colors from '@/constants/Colors';
+import type { BinarizationMethod, EnhanceMode, PaperSnap, ProcessOptions } from '@/types';
+
+interface ProcessOptionsPanelProps {
+  mode: EnhanceMode;
+  options: ProcessOptions;
+  onOptionsChange: (options: ProcessOptions) => void;
+  /** Curved-page dewarping; the toggle is hidden when no handler is given */
+  bookMode: boolean;
+  onBookModeChange?: (enabled: boolean) => void;
+  /** Two-page spread splitting; the toggle is hidden when no handler is given */
+  splitSpread: boolean;
+  onSplitSpreadChange?: (enabled: boolean) => void;
+}
+
+const BINARIZATION_METHODS: { key: BinarizationMethod; labelKey: string }[] = [
+  { key: 'mean', labelKey: 'binarizeMean' },
+  { key: 'sauvola', labelKey: 'binarizeSauvola' },
+  { key: 'wolf', labelKey: 'binarizeWolf' },
+  { key: 'otsu', labelKey: 'binarizeOtsu' },
+];
+
+const SENSITIVITY_STEP = 10;
+
+const OUTPUT_SIZES: { size: number; labelKey: string }[] = [
+  { size: 2000, labelKey: 'outputStandard' },
+  { size: 3000, labelKey: 'outputHigh' },
+  { size: 4000, labelKey: 'outputMax' },
+];
+
+const PAPER_SNAPS: { key: PaperSnap; labelKey: string }[] = [
+  { key: 'off', labelKey: 'paperMeasured' },
+  { key: 'auto', labelKey: 'paperAuto' },
+  { key: 'a4', labelKey: 'paperA4' },
+  { key: 'letter', labelKey: 'paperLetter' },
+  { key: 'receipt', labelKey: 'paperReceipt' },
+  { key: 'idCard', labelKey: 'paperIdCard' },
+  { key: 'passport', labelKey: 'paperPassport' },
+  { key: 'businessCard', labelKey: 'paperBusinessCard' },
+];
+
+export default function ProcessOptionsPanel({
+  mode,
+  options,
+  onOptionsChange,
+  bookMode,
+  onBookModeChange,
+  splitSpread,
+  onSplitSpreadChange,
+}: ProcessOptionsPanelProps) {
+  const theme = useColorScheme() ?? 'light';
+  const { t } = useTranslation();
+
+  // Magic color and whiteboard always flatten the lighting
+  const shadowsBuiltIn = mode === 'magic' || mode === 'whiteboard';
+
+  const update = (patch: Partial<ProcessOptions>) => onOptionsChange({ ...options, ...patch });
+
+  const stepSensitivity = (delta: number) =>
+    update({ sensitivity: Math.min(100, Math.max(0, options.sensitivity + delta)) });
+
+  return (
+    <View style={styles.container}>
+      {onBookModeChange && (
+        <View style={styles.row}>
+          <Text style={[styles.label, { color: Colors[theme].text }]}>{t('bookMode')}</Text>
+          <Switch value={bookMode} onValueChange={onBookModeChange} trackColor={{ true: Colors[theme].tint }} />
+        </View>
+      )}
+
+      {onSplitSpreadChange && (
+        <View style={styles.row}>
+          <Text style={[styles.label, { color: Colors[theme].text }]}>{t('splitSpread')}</Text>
+          <Switch value={splitSpread} onValueChange={onSplitSpreadChange} trackColor={{ true: Colors[theme].tint }} />
+        </View>
+      )}
+
+      <View style={[styles.row, shadowsBuiltIn && { opacity: 0.4 }]}>
+        <Text style={[styles.label, { color: Colors[theme].text }]}>{t('removeShadows')}</Text>
+        <Switch
+          value={shadowsBuiltIn || options.removeShadows}
+          onValueChange={(removeShadows) => update({ removeShadows })}
+          disabled={shadowsBuiltIn}
+          trackColor={{ true: Colors[theme].tint }}
+        />
+      </View>
+
+      {/* The book dewarp follows the edge curves, so it has no separate deskew pass */}
+      <View style={[styles.row, bookMode && { opacity: 0.4 }]}>
+        <Text style={[styles.label, { color: Colors[theme].text }]}>{t('deskew')}</Text>
+        <Switch
+          value={!bookMode && options.deskew}
+          onValueChange={(deskew) => update({ deskew })}
+          disabled={bookMode}
+          trackColor={{ true: Colors[theme].tint }}
+        />
+      </View>
+
+      <View style={styles.row}>
+        <Text style={[styles.label, { color: Colors[theme].text }]}>{t('outputQuality')}</Text>
+        <View style={styles.chipRow}>
+          {OUTPUT_SIZES.map(({ size, labelKey }) => {
+            const isActive = options.maxOutputSize === size;
+            return (
+              <TouchableOpacity
+                key={size}
+                style={[styles.chip, { backgroundColor: isActive ? Colors[theme].tint : Colors[theme].inputBackground }]}
+                onPress={() => update({ maxOutputSize: size })}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.chipText, { color: isActive ? '#fff' : Colors[theme].text }]}>{t(labelKey)}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <Text style={[styles.label, { color: Colors[theme].text }]}>{t('paperSize')}</Text>
+      <View style={styles.chipRow}>
+        {PAPER_SNAPS.map(({ key, labelKey }) => {
+          const isActive = options.paperSnap === key;
+          return (
+            <TouchableOpacity
+              key={key}
+              style={[styles.chip, { backgroundColor: isActive ? Colors[theme].tint : Colors[theme].inputBackground }]}
+              onPress={() => update({ paperSnap: key })}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.chipText, { color: isActive ? '#fff' : Colors[theme].text }]}>{t(labelKey)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {mode === 'bw' && (
+        <>
+          <View style={styles.chipRow}>
+            {BINARIZATION_METHODS.map(({ key, labelKey }) => {
+              const isActive = options.binarization === key;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.chip, { backgroundColor: isActive ? Colors[theme].tint : Colors[theme].inputBackground }]}
+                  onPress={() => update({ binarization: key })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, { color: isActive ? '#fff' : Colors[theme].text }]}>{t(labelKey)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: Colors[theme].text }]}>{t('sensitivity')}</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={[styles.stepBtn, { backgroundColor: Colors[theme].inputBackground }]}
+                onPress={() => stepSensitivity(-SENSITIVITY_STEP)}
+              >
+                <FontAwesome name="minus" size={12} color={Colors[theme].text} />
+              </TouchableOpacity>
+              <Text style={[styles.stepValue, { color: Colors[theme].subtleText }]}>{options.sensitivity}</Text>
+              <TouchableOpacity
+                style={[styles.stepBtn, { backgroundColor: Colors[theme].inputBackground }]}
+                onPress={() => stepSensitivity(SENSITIVITY_STEP)}
+              >
+                <FontAwesome name="plus" size={12} color={Colors[theme].text} />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: Colors[theme].text }]}>{t('despeckle')}</Text>
+            <Switch
+              value={options.despeckle}
+              onValueChange={(despeckle) => update({ despeckle })}
+              trackColor={{ true: Colors[theme].tint }}
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 12, gap: 8 },
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  label: { fontSize: 14, fontWeight: '500' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 14 },
+  chipText: { fontSize: 12, fontWeight: '500' },
+  stepper: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  stepBtn: { width: 28, height: 28, borderRadius: 14, alignItems: 'center', justifyContent: 'center' },
+  stepValue: { minWidth: 28, textAlign: 'center', fontSize: 13 },
+});
@@ -8,6 +8,7 @@ import android.graphics.ColorMatrix
 import android.graphics.ColorMatrixColorFilter
 import android.graphics.Matrix
 import android.graphics.Paint
+import android.os.Build
 import android.util.Base64
 import android.util.Log
 import expo.modules.kotlin.modules.Module
@@ -23,9 +24,9 @@ class DocumentDetectionModule : Module() {
     Name("DocumentDetection")
 
     // Native perspective correction using Android Bitmap/Canvas
-    AsyncFunction("processImageNative") { base64: String, corners: Map<String, Map<String, Double>>, mode: String ->
+    AsyncFunction("processImageNative") { base64: String, corners: Map<String, Map<String, Double>>, mode: String, options: Map<String, Any?>, encoding: Map<String, Any?>, aspectRatio: Double? ->
       try {
-        processImageImpl(base64, corners, mode)
+        processImageImpl(base64, corners, mode, options, encoding, aspectRatio)
       } catch (e: Exception) {
         Log.e(TAG, "processImageNative failed: ${e.message}", e)
         throw e
@@ -33,16 +34,40 @@ class DocumentDetectionModule : Module() {
     }
 
     // Native image editing — rotation, brightness, contrast, saturation, warmth, sepia, grayscale
-    AsyncFunction("applyEditsNative") { base64: String, rotation: Int, brightness: Double, contrast: Double, saturation: Double, warmth: Double, sepia: Double, grayscale: Double ->
+    AsyncFunction("applyEditsNative") { base64: String, edits: Map<String, Any?>, encoding: Map<String, Any?> ->
       try {
-        applyEditsImpl(base64, rotation, brightness, contrast, saturation, warmth, sepia, grayscale)
+        fun edit(key: String) = (edits[key] as? Number)?.toDouble() ?: 0.0
+        applyEditsImpl(
+          base64, edit("rotation").toInt(), edit("brightness"), edit("contrast"), edit("saturation"),
+          edit("warmth"), edit("sepia"), edit("grayscale"), encoding
+        )
       } catch (e: Exception) {
         Log.e(TAG, "applyEditsNative failed: ${e.message}", e)
         throw e
       }
     }
 
-    AsyncFunction("detectDocument") { base64: String ->
+    // Re-encoding for export — format, quality and an optional max dimension
+    AsyncFunction("encodeImageNative") { base64: String, encoding: Map<String, Any?> ->
+      try {
+        encodeImageImpl(base64, encoding)
+      } catch (e: Exception) {
+        Log.e(TAG, "encodeImageNative failed: ${e.message}", e)
+        throw e
+      }
+    }
+
+    AsyncFunction("recognizeText") { base64: String, options: Map<String, Any?> ->
+      try {
+        recognizeTextImpl(base64, options["language"] as? String ?: "en")
+      } catch (e: Exception) {
+        Log.e(TAG, "recognizeText failed: ${e.message}", e)
+        throw e
+      }
+    }
+
+    // The ONNX model predicts corners without area or aspect limits, so receipts need no relaxed options
+    AsyncFunction("detectDocument") { base64: String, _: Map<String, Any?>? ->
       try {
         detectImpl(base64)
       } catch (e: Exception) {
@@ -107,15 +132,36 @@ class DocumentDetectionModule : Module() {
     return null
   }
 
+  private fun recognizeTextImpl(base64: String, language: String): Map<String, Any> {
+    val context = appContext.reactContext ?: throw Exception("React context is null")
+    val bitmap = decodeBitmap(base64)
+    try {
+      return PageTextRecognizer.recognize(context, bitmap, language)
+    } finally {
+      bitmap.recycle()
+    }
+  }
+
   private fun decodeBitmap(base64: String): Bitmap {
     val bytes = Base64.decode(base64, Base64.DEFAULT)
     return BitmapFactory.decodeByteArray(bytes, 0, bytes.size)
       ?: throw Exception("Failed to decode image")
   }
 
-  private fun encodeBitmap(bitmap: Bitmap, quality: Int = 92): Map<String, Any> {
+  // Encodes as JPEG, PNG or WebP; quality (1-100) is ignored for lossless PNG
+  private fun encodeBitmap(bitmap: Bitmap, encoding: Map<String, Any?>? = null): Map<String, Any> {
+    val quality = (encoding?.get("quality") as? Number)?.toInt()?.coerceIn(1, 100) ?: 92
+    val format = when (encoding?.get("format")) {
+      "png" -> Bitmap.CompressFormat.PNG
+      "webp" -> if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.R) {
+        Bitmap.CompressFormat.WEBP_LOSSY
+      } else {
+        @Suppress("DEPRECATION") Bitmap.CompressFormat.WEBP
+      }
+      else -> Bitmap.CompressFormat.JPEG
+    }
     val stream = ByteArrayOutputStream()
-    bitmap.compress(Bitmap.CompressFormat.JPEG, quality, stream)
+    bitmap.compress(format, quality, stream)
     val b64 = Base64.encodeToString(stream.toByteArray(), Base64.NO_WRAP)
     val w = bitmap.width
     val h = bitmap.height
@@ -127,7 +173,10 @@ class DocumentDetectionModule : Module() {
   private fun processImageImpl(
     base64: String,
     corners: Map<String, Map<String, Double>>,
-    mode: String
+    mode: String,
+    options: Map<String, Any?>,
+    encoding: Map<String, Any?>,
+    aspectRatio: Double?
   ): Map<String, Any> {
     val src = decodeBitmap(base64)
     val sw = src.width.toFloat()
@@ -145,17 +194,25 @@ class DocumentDetectionModule : Module() {
     )
 
     // Output dimensions from edge distances
-    val dw = maxOf(
+    var dw = maxOf(
       dist(srcPts[0], srcPts[1], srcPts[2], srcPts[3]),
       dist(srcPts[6], srcPts[7], srcPts[4], srcPts[5])
-    ).toInt().coerceAtLeast(100)
-    val dh = maxOf(
+    ).toInt()
+    var dh = maxOf(
       dist(srcPts[0], srcPts[1], srcPts[6], srcPts[7]),
       dist(srcPts[2], srcPts[3], srcPts[4], srcPts[5])
-    ).toInt().coerceAtLeast(100)
+    ).toInt()
+    // Edge lengths foreshorten under perspective; keep the pixel count with the estimated proportions
+    if (aspectRatio != null && aspectRatio > 0) {
+      val area = dw.toDouble() * dh
+      dh = kotlin.math.sqrt(area / aspectRatio).toInt()
+      dw = (dh * aspectRatio).toInt()
+    }
+    dw = dw.coerceAtLeast(100)
+    dh = dh.coerceAtLeast(100)
 
     // Limit output size
-    val maxDim = 4000
+    val maxDim = (options["maxOutputSize"] as? Number)?.toInt() ?: 4000
     val scale = if (maxOf(dw, dh) > maxDim) maxDim.toFloat() / maxOf(dw, dh) else 1f
     val outW = (dw * scale).toInt()
     val outH = (dh * scale).toInt()
@@ -178,17 +235,38 @@ class DocumentDetectionModule : Module() {
     canvas.drawBitmap(src, 0f, 0f, paint)
     src.recycle()
 
-    // Apply color enhancement based on mode
-    if (mode != "color") {
-      val enhanced = applyModeFilter(result, mode)
-      result.recycle()
-      return encodeBitmap(enhanced)
+    // Shadow removal; magic color and whiteboard already flatten the lighting themselves
+    val removeShadows = options["removeShadows"] as? Boolean ?: false
+    if (removeShadows && mode != "magic" && mode != "whiteboard") {
+      normalizeBackground(result)
     }
 
-    // Color mode: subtle contrast boost
-    val enhanced = applyColorMatrix(result, contrastMatrix(1.1f, 0.02f, 1.05f))
-    result.recycle()
-    return encodeBitmap(enhanced)
+    // Apply color enhancement based on mode
+    when (mode) {
+      // Perspective correction only
+      "photo" -> return encodeBitmap(result, encoding)
+      "magic" -> {
+        normalizeBackground(result)
+        toneAndSaturate(result, 235, 1.35f)
+        return encodeBitmap(result, encoding)
+      }
+      "whiteboard" -> {
+        normalizeBackground(result)
+        toneAndSaturate(result, 215, 1.8f)
+        return encodeBitmap(result, encoding)
+      }
+      "color" -> {
+        // Subtle contrast boost
+        val enhanced = applyColorMatrix(result, contrastMatrix(1.1f, 0.02f, 1.05f))
+        result.recycle()
+        return encodeBitmap(enhanced, encoding)
+      }
+      else -> {
+        val enhanced = applyModeFilter(result, mode)
+        result.recycle()
+        return encodeBitmap(enhanced, encoding)
+      }
+    }
   }
 
   // ── Image editing: rotation + color adjustments ──
@@ -200,7 +278,8 @@ class DocumentDetectionModule : Module() {
     saturation: Double,
     warmth: Double,
     sepia: Double,
-    grayscale: Double
+    grayscale: Double,
+    encoding: Map<String, Any?>
   ): Map<String, Any> {
     var bmp = decodeBitmap(base64)
 
@@ -283,7 +362,26 @@ class DocumentDetectionModule : Module() {
 
     val edited = applyColorMatrix(bmp, cm)
     bmp.recycle()
-    return encodeBitmap(edited)
+    return encodeBitmap(edited, encoding)
+  }
+
+  // ── Export encoding ──
+  private fun encodeImageImpl(base64: String, encoding: Map<String, Any?>): Map<String, Any> {
+    var bmp = decodeBitmap(base64)
+    val maxDim = (encoding["maxDimension"] as? Number)?.toInt() ?: 0
+    val longSide = maxOf(bmp.width, bmp.height)
+    if (maxDim in 1 until longSide) {
+      val scale = maxDim.toFloat() / longSide
+      val scaled = Bitmap.createScaledBitmap(
+        bmp,
+        (bmp.width * scale).toInt().coerceAtLeast(1),
+        (bmp.height * scale).toInt().coerceAtLeast(1),
+        true
+      )
+      bmp.recycle()
+      bmp = scaled
+    }
+    return encodeBitmap(bmp, encoding)
   }
 
   // ── Helpers ──
@@ -321,8 +419,116 @@ class DocumentDetectionModule : Module() {
     return when (mode) {
       "gray" -> applyColorMatrix(src, contrastMatrix(1.3f, 0.05f, 0f))
       "bw" -> applyColorMatrix(src, contrastMatrix(2.0f, 0.1f, 0f))
-      else -> src
+      else -> applyColorMatrix(src, ColorMatrix())
+    }
+  }
+
+  // ── Paper background normalization (shadow removal, magic color, whiteboard) ──
+  // Mirrors estimateBackground/normalizeBackground in the WebView engine:
+  // per-cell 90th percentile per channel, 3x3 dilate, two box blurs, then
+  // divide each pixel by the bilinearly sampled background.
+  private fun normalizeBackground(bitmap: Bitmap) {
+    val w = bitmap.width
+    val h = bitmap.height
+    val pixels = IntArray(w * h)
+    bitmap.getPixels(pixels, 0, w, 0, 0, w, h)
+
+    val cell = maxOf(16, Math.round(minOf(w, h) / 24f))
+    val gw = (w + cell - 1) / cell
+    val gh = (h + cell - 1) / cell
+    var grid = FloatArray(gw * gh * 3)
+    val hist = IntArray(768)
+    for (gy in 0 until gh) {
+      for (gx in 0 until gw) {
+        hist.fill(0)
+        var count = 0
+        for (y in gy * cell until minOf(h, (gy + 1) * cell)) {
+          for (x in gx * cell until minOf(w, (gx + 1) * cell)) {
+            val c = pixels[y * w + x]
+            hist[Color.red(c)]++
+            hist[256 + Color.green(c)]++
+            hist[512 + Color.blue(c)]++
+            count++
+          }
+        }
+        for (ch in 0 until 3) {
+          grid[(gy * gw + gx) * 3 + ch] = histPercentile(hist, ch * 256, count, 0.9f).toFloat()
+        }
+      }
+    }
+
+    grid = gridFilter(grid, gw, gh) { values -> values.max() }
+    repeat(2) { grid = gridFilter(grid, gw, gh) { values -> values.average().toFloat() } }
+
+    for (y in 0 until h) {
+      val fy = ((y + 0.5f) / cell - 0.5f).coerceIn(0f, (gh - 1).toFloat())
+      val y0 = fy.toInt(); val y1 = minOf(gh - 1, y0 + 1); val ty = fy - y0
+      for (x in 0 until w) {
+        val fx = ((x + 0.5f) / cell - 0.5f).coerceIn(0f, (gw - 1).toFloat())
+        val x0 = fx.toInt(); val x1 = minOf(gw - 1, x0 + 1); val tx = fx - x0
+        fun divide(ch: Int, v: Int): Int {
+          val a = grid[(y0 * gw + x0) * 3 + ch]; val b = grid[(y0 * gw + x1) * 3 + ch]
+          val d = grid[(y1 * gw + x0) * 3 + ch]; val e = grid[(y1 * gw + x1) * 3 + ch]
+          val bg = (a + (b - a) * tx) * (1 - ty) + (d + (e - d) * tx) * ty
+          return (v * 255f / maxOf(bg, 32f)).toInt().coerceIn(0, 255)
+        }
+        val c = pixels[y * w + x]
+        pixels[y * w + x] = Color.rgb(divide(0, Color.red(c)), divide(1, Color.green(c)), divide(2, Color.blue(c)))
+      }
+    }
+    bitmap.setPixels(pixels, 0, w, 0, 0, w, h)
+  }
+
+  // Stretch towards white above paperLevel and scale chroma around luminance
+  private fun toneAndSaturate(bitmap: Bitmap, paperLevel: Int, saturation: Float) {
+    val w = bitmap.width
+    val h = bitmap.height
+    val pixels = IntArray(w * h)
+    bitmap.getPixels(pixels, 0, w, 0, 0, w, h)
+
+    val hist = IntArray(256)
+    for (c in pixels) hist[luminance(c)]++
+    val lo = minOf(histPercentile(hist, 0, pixels.size, 0.005f), paperLevel - 1)
+    val range = (paperLevel - lo).toFloat()
+
+    for (i in pixels.indices) {
+      val c = pixels[i]
+      val l = luminance(c).toFloat()
+      fun adjust(v: Int): Int = (((l + (v - l) * saturation) - lo) / range * 255f).toInt().coerceIn(0, 255)
+      pixels[i] = Color.rgb(adjust(Color.red(c)), adjust(Color.green(c)), adjust(Color.blue(c)))
+    }
+    bitmap.setPixels(pixels, 0, w, 0, 0, w, h)
+  }
+
+  private fun luminance(c: Int): Int =
+    (0.299f * Color.red(c) + 0.587f * Color.green(c) + 0.114f * Color.blue(c) + 0.5f).toInt()
+
+  private fun histPercentile(hist: IntArray, offset: Int, total: Int, pct: Float): Int {
+    val target = (total * pct).toInt()
+    var sum = 0
+    for (i in 0 until 256) {
+      sum += hist[offset + i]
+      if (sum > target) return i
+    }
+    return 255
+  }
+
+  // 3x3 neighbourhood filter over an interleaved RGB float grid
+  private fun gridFilter(grid: FloatArray, gw: Int, gh: Int, reduce: (List<Float>) -> Float): FloatArray {
+    val out = FloatArray(grid.size)
+    for (gy in 0 until gh) {
+      for (gx in 0 until gw) {
+        for (ch in 0 until 3) {
+          val values = ArrayList<Float>(9)
+          for (dy in -1..1) for (dx in -1..1) {
+            val ny = gy + dy; val nx = gx + dx
+            if (ny in 0 until gh && nx in 0 until gw) values.add(grid[(ny * gw + nx) * 3 + ch])
+          }
+          out[(gy * gw + gx) * 3 + ch] = reduce(values)
+        }
+      }
     }
+    return out
   }
 
 }
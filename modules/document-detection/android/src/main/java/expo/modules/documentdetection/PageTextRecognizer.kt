@@ -0,0 +1,123 @@
+package expo.modules.documentdetection
+
+import android.content.Context
+import android.graphics.Bitmap
+import android.graphics.Rect
+import android.util.Log
+import com.google.android.gms.tasks.Tasks
+import com.google.mlkit.vision.common.InputImage
+import com.google.mlkit.vision.text.TextRecognition
+import com.google.mlkit.vision.text.TextRecognizer
+import com.google.mlkit.vision.text.chinese.ChineseTextRecognizerOptions
+import com.google.mlkit.vision.text.japanese.JapaneseTextRecognizerOptions
+import com.google.mlkit.vision.text.korean.KoreanTextRecognizerOptions
+import com.google.mlkit.vision.text.latin.TextRecognizerOptions
+import com.googlecode.tesseract.android.TessBaseAPI
+import java.io.File
+
+/**
+ * On-device text recognition with word boxes. ML Kit's bundled models cover
+ * Latin, Chinese, Japanese and Korean scripts; it has no Arabic model, so
+ * Arabic runs through Tesseract with `tessdata/ara.traineddata` from the app
+ * assets, shipped like the ONNX detector model.
+ *
+ * Results are maps of lines, each with text, a normalized top-left-origin box
+ * and its words.
+ */
+object PageTextRecognizer {
+  private const val TAG = "DocumentDetection"
+  private const val TESSDATA_DIR = "tessdata"
+  private const val ARABIC_MODEL = "ara"
+
+  fun recognize(context: Context, bitmap: Bitmap, language: String): Map<String, Any> {
+    val lines = if (language == "ar") recognizeTesseract(context, bitmap, ARABIC_MODEL)
+      else recognizeMlKit(bitmap, language)
+    return mapOf("lines" to lines)
+  }
+
+  private fun mlKitClient(language: String): TextRecognizer = when (language) {
+    "zh" -> TextRecognition.getClient(ChineseTextRecognizerOptions.Builder().build())
+    "ja" -> TextRecognition.getClient(JapaneseTextRecognizerOptions.Builder().build())
+    "ko" -> TextRecognition.getClient(KoreanTextRecognizerOptions.Builder().build())
+    else -> TextRecognition.getClient(TextRecognizerOptions.DEFAULT_OPTIONS)
+  }
+
+  private fun recognizeMlKit(bitmap: Bitmap, language: String): List<Map<String, Any>> {
+    val recognizer = mlKitClient(language)
+    try {
+      val text = Tasks.await(recognizer.process(InputImage.fromBitmap(bitmap, 0)))
+      return text.textBlocks.flatMap { it.lines }.mapNotNull { line ->
+        val box = line.boundingBox ?: return@mapNotNull null
+        val words = line.elements.mapNotNull { element ->
+          val wordBox = element.boundingBox ?: return@mapNotNull null
+          mapOf("text" to element.text, "box" to normalize(wordBox, bitmap))
+        }
+        mapOf("text" to line.text, "box" to normalize(box, bitmap), "words" to words)
+      }
+    } finally {
+      recognizer.close()
+    }
+  }
+
+  private fun recognizeTesseract(context: Context, bitmap: Bitmap, model: String): List<Map<String, Any>> {
+    val dataDir = ensureTessdata(context, model)
+    val tess = TessBaseAPI()
+    try {
+      if (!tess.init(dataDir.absolutePath, model)) throw Exception("Tesseract failed to load '$model'")
+      tess.setImage(bitmap)
+      tess.getUTF8Text()
+      val lines = mutableListOf<Map<String, Any>>()
+      var words = mutableListOf<Map<String, Any>>()
+      var lineText = ""
+      var lineBox: Rect? = null
+      val iterator = tess.resultIterator ?: return lines
+      iterator.begin()
+      do {
+        if (iterator.isAtBeginningOf(TessBaseAPI.PageIteratorLevel.RIL_TEXTLINE)) {
+          lineBox?.let { lines.add(mapOf("text" to lineText, "box" to normalize(it, bitmap), "words" to words)) }
+          lineText = iterator.getUTF8Text(TessBaseAPI.PageIteratorLevel.RIL_TEXTLINE)?.trim() ?: ""
+          lineBox = iterator.getBoundingRect(TessBaseAPI.PageIteratorLevel.RIL_TEXTLINE)
+          words = mutableListOf()
+        }
+        val word = iterator.getUTF8Text(TessBaseAPI.PageIteratorLevel.RIL_WORD)?.trim()
+        if (!word.isNullOrEmpty()) {
+          val wordBox = iterator.getBoundingRect(TessBaseAPI.PageIteratorLevel.RIL_WORD)
+          words.add(mapOf("text" to word, "box" to normalize(wordBox, bitmap)))
+        }
+      } while (iterator.next(TessBaseAPI.PageIteratorLevel.RIL_WORD))
+      lineBox?.let { lines.add(mapOf("text" to lineText, "box" to normalize(it, bitmap), "words" to words)) }
+      iterator.delete()
+      return lines
+    } finally {
+      tess.recycle()
+    }
+  }
+
+  // Tesseract reads models from the file system, so the asset is copied out once
+  private fun ensureTessdata(context: Context, model: String): File {
+    val dataDir = File(context.filesDir, "ocr")
+    val modelFile = File(dataDir, "$TESSDATA_DIR/$model.traineddata")
+    if (!modelFile.exists()) {
+      modelFile.parentFile?.mkdirs()
+      try {
+        context.assets.open("$TESSDATA_DIR/$model.traineddata").use { input ->
+          modelFile.outputStream().use { input.copyTo(it) }
+        }
+      } catch (e: Exception) {
+        modelFile.delete()
+        Log.e(TAG, "Missing Tesseract model $model: ${e.message}")
+        throw Exception("Text recognition does not support '$model' on this device")
+      }
+    }
+    return dataDir
+  }
+
+  private fun normalize(box: Rect, bitmap: Bitmap): Map<String, Double> {
+    val w = bitmap.width.toDouble()
+    val h = bitmap.height.toDouble()
+    return mapOf(
+      "x" to box.left / w, "y" to box.top / h,
+      "width" to box.width() / w, "height" to box.height() / h
+    )
+  }
+}
@@ -7,7 +7,7 @@ public class DocumentDetectionModule: Module {
     Name("DocumentDetection")
 
     // Native perspective correction using Core Image — handles full-res images
-    AsyncFunction("processImageNative") { (base64: String, corners: [String: [String: Double]], mode: String) -> [String: Any] in
+    AsyncFunction("processImageNative") { (base64: String, corners: [String: [String: Double]], mode: String, options: [String: Any], encoding: [String: Any], aspectRatio: Double?) -> [String: Any] in
       guard let data = Data(base64Encoded: base64),
             let uiImage = UIImage(data: data),
             let cgImage = uiImage.cgImage else {
@@ -66,6 +66,12 @@ public class DocumentDetectionModule: Module {
                       userInfo: [NSLocalizedDescriptionKey: "Perspective correction failed"])
       }
 
+      // Shadow removal; magic color and whiteboard already flatten the lighting themselves
+      let removeShadows = options["removeShadows"] as? Bool ?? false
+      if removeShadows && mode != "magic" && mode != "whiteboard" {
+        outputImage = DocumentDetectionModule.flattenBackground(outputImage)
+      }
+
       // Apply enhancement based on mode
       if mode == "gray" {
         if let grayFilter = CIFilter(name: "CIPhotoEffectMono") {
@@ -91,6 +97,23 @@ public class DocumentDetectionModule: Module {
           contrastFilter.setValue(0.1, forKey: kCIInputBrightnessKey)
           if let result = contrastFilter.outputImage { outputImage = result }
         }
+      } else if mode == "magic" || mode == "whiteboard" {
+        // Flatten paper/board shading, then whiten the background and lift ink colour
+        let isBoard = mode == "whiteboard"
+        outputImage = DocumentDetectionModule.flattenBackground(outputImage)
+        outputImage = outputImage.applyingFilter("CIColorControls", parameters: [
+          kCIInputSaturationKey: isBoard ? 1.8 : 1.35,
+        ])
+        let paper: CGFloat = isBoard ? 0.84 : 0.92
+        outputImage = outputImage.applyingFilter("CIToneCurve", parameters: [
+          "inputPoint0": CIVector(x: 0, y: 0),
+          "inputPoint1": CIVector(x: 0.3, y: isBoard ? 0.2 : 0.25),
+          "inputPoint2": CIVector(x: 0.6, y: isBoard ? 0.55 : 0.58),
+          "inputPoint3": CIVector(x: paper, y: 1),
+          "inputPoint4": CIVector(x: 1, y: 1),
+        ])
+      } else if mode == "photo" {
+        // Perspective correction only — tones untouched
       } else {
         // "color" mode — subtle enhancement
         if let contrastFilter = CIFilter(name: "CIColorControls") {
@@ -102,14 +125,26 @@ public class DocumentDetectionModule: Module {
       }
 
       // Keep high quality — editor is now native too
-      let maxOutputDim: CGFloat = 4000
+      let maxOutputDim = CGFloat((options["maxOutputSize"] as? NSNumber)?.doubleValue ?? 4000)
       let extent = outputImage.extent
-      if extent.width > maxOutputDim || extent.height > maxOutputDim {
-        let scale = maxOutputDim / max(extent.width, extent.height)
+      var targetW = extent.width
+      var targetH = extent.height
+      // CIPerspectiveCorrection sizes from the foreshortened edges; keep the pixel count with the estimated proportions
+      if let ratio = aspectRatio, ratio > 0 {
+        targetH = (extent.width * extent.height / CGFloat(ratio)).squareRoot()
+        targetW = targetH * CGFloat(ratio)
+      }
+      if targetW > maxOutputDim || targetH > maxOutputDim {
+        let fit = maxOutputDim / max(targetW, targetH)
+        targetW *= fit
+        targetH *= fit
+      }
+      if targetW != extent.width || targetH != extent.height {
+        let scale = targetH / extent.height
         if let scaleFilter = CIFilter(name: "CILanczosScaleTransform") {
           scaleFilter.setValue(outputImage, forKey: kCIInputImageKey)
           scaleFilter.setValue(scale, forKey: kCIInputScaleKey)
-          scaleFilter.setValue(1.0, forKey: kCIInputAspectRatioKey)
+          scaleFilter.setValue((targetW / extent.width) / scale, forKey: kCIInputAspectRatioKey)
           if let scaled = scaleFilter.outputImage { outputImage = scaled }
         }
       }
@@ -122,12 +157,12 @@ public class DocumentDetectionModule: Module {
       }
 
       let resultImage = UIImage(cgImage: cgResult)
-      guard let jpegData = resultImage.jpegData(compressionQuality: 0.92) else {
+      guard let encoded = DocumentDetectionModule.encode(resultImage, encoding: encoding) else {
         throw NSError(domain: "DocumentDetection", code: 7,
-                      userInfo: [NSLocalizedDescriptionKey: "Failed to encode JPEG"])
+                      userInfo: [NSLocalizedDescriptionKey: "Failed to encode image"])
       }
 
-      let resultBase64 = jpegData.base64EncodedString()
+      let resultBase64 = encoded.base64EncodedString()
       return [
         "base64": resultBase64,
         "width": Int(finalExtent.width),
@@ -136,7 +171,14 @@ public class DocumentDetectionModule: Module {
     }
 
     // Native image editing — rotation, brightness, contrast, saturation, warmth, sepia, grayscale
-    AsyncFunction("applyEditsNative") { (base64: String, rotation: Int, brightness: Double, contrast: Double, saturation: Double, warmth: Double, sepia: Double, grayscale: Double) -> [String: Any] in
+    AsyncFunction("applyEditsNative") { (base64: String, edits: [String: Double], encoding: [String: Any]) -> [String: Any] in
+      let rotation = Int(edits["rotation"] ?? 0)
+      let brightness = edits["brightness"] ?? 0
+      let contrast = edits["contrast"] ?? 0
+      let saturation = edits["saturation"] ?? 0
+      let warmth = edits["warmth"] ?? 0
+      let sepia = edits["sepia"] ?? 0
+      let grayscale = edits["grayscale"] ?? 0
       guard let data = Data(base64Encoded: base64),
             let uiImage = UIImage(data: data),
             let cgImage = uiImage.cgImage else {
@@ -232,12 +274,12 @@ public class DocumentDetectionModule: Module {
       }
 
       let resultImage = UIImage(cgImage: cgResult)
-      guard let jpegData = resultImage.jpegData(compressionQuality: 0.92) else {
+      guard let encoded = DocumentDetectionModule.encode(resultImage, encoding: encoding) else {
         throw NSError(domain: "DocumentDetection", code: 12,
-                      userInfo: [NSLocalizedDescriptionKey: "Failed to encode JPEG"])
+                      userInfo: [NSLocalizedDescriptionKey: "Failed to encode image"])
       }
 
-      let resultBase64 = jpegData.base64EncodedString()
+      let resultBase64 = encoded.base64EncodedString()
       return [
         "base64": resultBase64,
         "width": Int(finalExtent.width),
@@ -245,7 +287,81 @@ public class DocumentDetectionModule: Module {
       ]
     }
 
-    AsyncFunction("detectDocument") { (base64: String) -> [String: [String: Double]]? in
+    // Re-encoding for export — format, quality and an optional max dimension
+    AsyncFunction("encodeImageNative") { (base64: String, encoding: [String: Any]) -> [String: Any] in
+      guard let data = Data(base64Encoded: base64),
+            let uiImage = UIImage(data: data),
+            let cgImage = uiImage.cgImage else {
+        throw NSError(domain: "DocumentDetection", code: 20,
+                      userInfo: [NSLocalizedDescriptionKey: "Could not decode image"])
+      }
+
+      var ciImage = CIImage(cgImage: cgImage)
+      let maxDim = CGFloat((encoding["maxDimension"] as? NSNumber)?.doubleValue ?? 0)
+      let longSide = max(ciImage.extent.width, ciImage.extent.height)
+      if maxDim > 0 && longSide > maxDim,
+         let scaleFilter = CIFilter(name: "CILanczosScaleTransform") {
+        scaleFilter.setValue(ciImage, forKey: kCIInputImageKey)
+        scaleFilter.setValue(maxDim / longSide, forKey: kCIInputScaleKey)
+        scaleFilter.setValue(1.0, forKey: kCIInputAspectRatioKey)
+        if let scaled = scaleFilter.outputImage { ciImage = scaled }
+      }
+
+      let context = CIContext(options: [.useSoftwareRenderer: false])
+      let finalExtent = ciImage.extent.integral
+      guard let cgResult = context.createCGImage(ciImage, from: finalExtent),
+            let encoded = DocumentDetectionModule.encode(UIImage(cgImage: cgResult), encoding: encoding) else {
+        throw NSError(domain: "DocumentDetection", code: 21,
+                      userInfo: [NSLocalizedDescriptionKey: "Failed to encode image"])
+      }
+
+      return [
+        "base64": encoded.base64EncodedString(),
+        "width": Int(finalExtent.width),
+        "height": Int(finalExtent.height)
+      ]
+    }
+
+    // On-device Vision text recognition. Boxes are normalized with a top-left origin;
+    // words come from the system word breaker, which also segments Chinese and Japanese.
+    AsyncFunction("recognizeText") { (base64: String, options: [String: Any]) -> [String: Any] in
+      guard let data = Data(base64Encoded: base64),
+            let uiImage = UIImage(data: data),
+            let cgImage = uiImage.cgImage else {
+        throw NSError(domain: "DocumentDetection", code: 2,
+                      userInfo: [NSLocalizedDescriptionKey: "Could not decode image"])
+      }
+      let language = options["language"] as? String ?? "en"
+      let request = VNRecognizeTextRequest()
+      request.recognitionLevel = .accurate
+      request.usesLanguageCorrection = true
+      let visionLanguage = DocumentDetectionModule.visionLanguages[language] ?? "en-US"
+      // Older Vision revisions lack some scripts (Arabic arrived later than CJK)
+      guard try request.supportedRecognitionLanguages().contains(visionLanguage) else {
+        throw NSError(domain: "DocumentDetection", code: 4,
+                      userInfo: [NSLocalizedDescriptionKey: "Text recognition does not support '\(language)' on this device"])
+      }
+      request.recognitionLanguages = [visionLanguage]
+      try VNImageRequestHandler(cgImage: cgImage, options: [:]).perform([request])
+
+      func normalized(_ box: CGRect) -> [String: Double] {
+        ["x": Double(box.minX), "y": Double(1 - box.maxY), "width": Double(box.width), "height": Double(box.height)]
+      }
+      let lines: [[String: Any]] = (request.results ?? []).compactMap { observation in
+        guard let candidate = observation.topCandidates(1).first else { return nil }
+        let string = candidate.string
+        var words: [[String: Any]] = []
+        string.enumerateSubstrings(in: string.startIndex..<string.endIndex, options: .byWords) { word, range, _, _ in
+          guard let word = word, let box = try? candidate.boundingBox(for: range) else { return }
+          words.append(["text": word, "box": normalized(box.boundingBox)])
+        }
+        return ["text": string, "box": normalized(observation.boundingBox), "words": words]
+      }
+      return ["lines": lines]
+    }
+
+    AsyncFunction("detectDocument") { (base64: String, options: [String: Any]?) -> [String: [String: Double]]? in
+      let receipt = options?["receipt"] as? Bool ?? false
       guard let data = Data(base64Encoded: base64),
             let image = UIImage(data: data),
             let cgImage = image.cgImage else {
@@ -315,10 +431,10 @@ public class DocumentDetectionModule: Module {
           continuation.resume(returning: corners)
         }
 
-        // Configure for document/receipt detection
-        request.minimumAspectRatio = 0.2
+        // Configure for document detection; receipts can be far longer and thinner
+        request.minimumAspectRatio = receipt ? 0.05 : 0.2
         request.maximumAspectRatio = 1.0
-        request.minimumSize = 0.1
+        request.minimumSize = receipt ? 0.05 : 0.1
         request.maximumObservations = 1
         request.minimumConfidence = 0.3
 
@@ -331,4 +447,35 @@ public class DocumentDetectionModule: Module {
       }
     }
   }
+
+  // Vision identifiers for the app's recognition languages
+  private static let visionLanguages: [String: String] = [
+    "en": "en-US", "es": "es-ES", "fr": "fr-FR", "pt": "pt-BR",
+    "ar": "ar-SA", "zh": "zh-Hans", "ja": "ja-JP", "ko": "ko-KR"
+  ]
+
+  /// Encodes as PNG or JPEG at the requested quality (1-100). UIKit has no WebP
+  /// encoder, so WebP requests fall back to JPEG; callers detect the actual format.
+  private static func encode(_ image: UIImage, encoding: [String: Any]) -> Data? {
+    if encoding["format"] as? String == "png" { return image.pngData() }
+    let quality = (encoding["quality"] as? NSNumber)?.doubleValue ?? 92
+    return image.jpegData(compressionQuality: CGFloat(min(100, max(1, quality)) / 100))
+  }
+
+  /// Divides out the paper/board illumination. The background is estimated on a
+  /// small copy with a max filter (which removes dark ink) followed by a blur.
+  private static func flattenBackground(_ image: CIImage) -> CIImage {
+    let extent = image.extent
+    let scale = min(1, 256 / max(extent.width, extent.height))
+    let background = image
+      .transformed(by: CGAffineTransform(scaleX: scale, y: scale))
+      .applyingFilter("CIMorphologyMaximum", parameters: [kCIInputRadiusKey: 4])
+      .clampedToExtent()
+      .applyingFilter("CIGaussianBlur", parameters: [kCIInputRadiusKey: 6])
+      .transformed(by: CGAffineTransform(scaleX: 1 / scale, y: 1 / scale))
+      .cropped(to: extent)
+    return background
+      .applyingFilter("CIDivideBlendMode", parameters: [kCIInputBackgroundImageKey: image])
+      .cropped(to: extent)
+  }
 }
@@ -7,6 +7,57 @@ interface Corners {
   bl: { x: number; y: number };
 }
 
+/** WebP falls back to JPEG on iOS, which has no system WebP encoder */
+interface ImageEncoding {
+  format: 'jpeg' | 'png' | 'webp';
+  /** 1-100; ignored for PNG */
+  quality: number;
+}
+
+interface ImageEdits {
+  rotation: number;
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  warmth: number;
+  sepia: number;
+  grayscale: number;
+}
+
+interface DetectOptions {
+  /** Accept the long, narrow outlines of receipts */
+  receipt?: boolean;
+}
+
+/** Normalized (0-1) rectangle with a top-left origin */
+interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface RecognizedWord {
+  text: string;
+  box: TextBox;
+}
+
+interface RecognizedText {
+  /** Lines in reading order as the platform recognizer returns them */
+  lines: { text: string; box: TextBox; words: RecognizedWord[] }[];
+}
+
+interface RecognizeOptions {
+  /** App language code (en, es, fr, pt, ar, zh, ja, ko) selecting the recognition model */
+  language: string;
+}
+
+interface ProcessOptions {
+  removeShadows: boolean;
+  /** Longest side of the output in pixels */
+  maxOutputSize: number;
+}
+
 const DocumentDetection = requireNativeModule('DocumentDetection');
 
 /**
@@ -14,20 +65,33 @@ const DocumentDetection = requireNativeModule('DocumentDetection');
  * iOS uses Apple Vision framework; Android uses native gradient RANSAC algorithm.
  * Returns normalized corner coordinates (0-1) or null if no document found.
  */
-export async function detectDocument(base64: string): Promise<Corners | null> {
-  return DocumentDetection.detectDocument(base64);
+export async function detectDocument(base64: string, options: DetectOptions = {}): Promise<Corners | null> {
+  return DocumentDetection.detectDocument(base64, options);
+}
+
+/**
+ * On-device text recognition on a processed page, with word boxes.
+ * iOS uses the Vision framework; Android uses ML Kit, and Tesseract for Arabic.
+ * Rejects when the device has no model for the language.
+ */
+export async function recognizeText(base64: string, options: RecognizeOptions): Promise<RecognizedText> {
+  return DocumentDetection.recognizeText(base64, options);
 }
 
 /**
  * Native perspective correction + enhancement.
  * Uses Core Image on iOS — handles full-res images without WebView limits.
+ * `aspectRatio` (width/height) overrides the proportions of the corrected page.
  */
 export async function processImageNative(
   base64: string,
   corners: Corners,
-  mode: 'color' | 'gray' | 'bw'
+  mode: 'color' | 'gray' | 'bw' | 'magic' | 'whiteboard' | 'photo',
+  options: ProcessOptions,
+  encoding: ImageEncoding,
+  aspectRatio: number | null
 ): Promise<{ base64: string; width: number; height: number }> {
-  return DocumentDetection.processImageNative(base64, corners, mode);
+  return DocumentDetection.processImageNative(base64, corners, mode, options, encoding, aspectRatio);
 }
 
 /**
@@ -36,13 +100,19 @@ export async function processImageNative(
  */
 export async function applyEditsNative(
   base64: string,
-  rotation: number,
-  brightness: number,
-  contrast: number,
-  saturation: number,
-  warmth: number,
-  sepia: number,
-  grayscale: number
+  edits: ImageEdits,
+  encoding: ImageEncoding
+): Promise<{ base64: string; width: number; height: number }> {
+  return DocumentDetection.applyEditsNative(base64, edits, encoding);
+}
+
+/**
+ * Re-encodes an image for export, scaled down to fit `maxDimension` when it is
+ * larger (0 keeps the size).
+ */
+export async function encodeImageNative(
+  base64: string,
+  encoding: ImageEncoding & { maxDimension: number }
 ): Promise<{ base64: string; width: number; height: number }> {
-  return DocumentDetection.applyEditsNative(base64, rotation, brightness, contrast, saturation, warmth, sepia, grayscale);
+  return DocumentDetection.encodeImageNative(base64, encoding);
 }
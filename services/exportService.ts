@@ -0,0 +1,209 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { File, Paths } from 'expo-file-system';
+import { encodeImageNative } from '@/modules/document-detection/src';
+import { decodedLength } from '@/utils/base64';
+import { buildVCard } from '@/utils/businessCard';
+import { imageExtension, imageFormat } from '@/utils/imageFormat';
+import { embedImageMetadata } from '@/utils/imageMetadata';
+import { paperDpi, type PaperSize } from '@/utils/paperSizes';
+import type { BusinessCard, ImageEncoding, ImageFormat, ScanResult } from '@/types';
+
+/**
+ * User-level output settings. The encoding also applies to processed and
+ * edited pages, so a PNG profile keeps the whole chain lossless.
+ */
+export interface ExportProfile extends ImageEncoding {
+  /** Longest side of saved and exported images in pixels; 0 keeps the processed size */
+  maxDimension: number;
+  /** Print resolution, used to size PDF pages */
+  dpi: number;
+  /** File size cap for saved images and whole PDFs in KB; 0 disables compression */
+  targetSizeKB: number;
+}
+
+/** Outcome of an export, shown to the user before the file is shared */
+export interface ExportReport {
+  bytes: number;
+  /** Largest image in the export, in pixels */
+  width: number;
+  height: number;
+  /** False when even the smallest allowed encoding stayed above the target */
+  fitsTarget: boolean;
+}
+
+// JPEG by default, as before profiles existed: PNG pages are several MB through the bridge and library
+export const DEFAULT_EXPORT_PROFILE: ExportProfile = {
+  format: 'jpeg',
+  quality: 92,
+  maxDimension: 0,
+  dpi: 150,
+  targetSizeKB: 0,
+};
+
+export const EXPORT_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+export const EXPORT_QUALITIES = [60, 75, 85, 92, 100];
+export const EXPORT_MAX_DIMENSIONS = [0, 1600, 2400, 3200];
+export const EXPORT_DPIS = [150, 200, 300];
+export const EXPORT_TARGET_SIZES = [0, 500, 1024, 2048];
+
+export const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+};
+
+const PROFILE_KEY = 'pixnap_export_profile';
+
+/** Application name and version, recorded as the creator of exported files */
+export const SOFTWARE = `Pixnap ${Constants.expoConfig?.version ?? ''}`.trim();
+
+/** Where a saved image comes from, written into its metadata */
+export interface ImageProvenance {
+  /** Capture time, epoch milliseconds */
+  capturedAt: number;
+  title?: string;
+  /** Paper the page was scanned from, giving its true print size; null uses the profile DPI */
+  paper: PaperSize | null;
+}
+
+// Room left for embedded metadata when compressing to a target size
+const METADATA_RESERVE_BYTES = 4096;
+
+export async function loadExportProfile(): Promise<ExportProfile> {
+  try {
+    const raw = await AsyncStorage.getItem(PROFILE_KEY);
+    if (raw) return { ...DEFAULT_EXPORT_PROFILE, ...JSON.parse(raw) };
+  } catch {
+    // ignore parse errors
+  }
+  return DEFAULT_EXPORT_PROFILE;
+}
+
+export async function saveExportProfile(profile: ExportProfile): Promise<void> {
+  await AsyncStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+}
+
+/**
+ * Encodes an image in the profile's format and size limit. Images already in
+ * that format and within the limit are returned unchanged rather than
+ * compressed a second time.
+ */
+export async function encodeForExport(image: ScanResult, profile: ExportProfile): Promise<ScanResult> {
+  const fits = profile.maxDimension <= 0 || Math.max(image.width, image.height) <= profile.maxDimension;
+  if (fits && imageFormat(image.base64) === profile.format) return image;
+  return encodeImageNative(image.base64, {
+    format: profile.format,
+    quality: profile.quality,
+    maxDimension: profile.maxDimension,
+  });
+}
+
+// ── Target size compression ──
+
+// JPEG qualities tried at each resolution, best first
+const COMPRESSION_QUALITIES = [85, 75, 65, 55, 45];
+// Text stays legible down to roughly this long side on a full page
+const MIN_COMPRESSED_DIMENSION = 1000;
+
+export interface CompressedImage {
+  image: ScanResult;
+  bytes: number;
+  fitsTarget: boolean;
+}
+
+/**
+ * Re-encodes an image as JPEG until it is at most `maxBytes`, lowering the
+ * quality first and then the resolution. When nothing fits, the smallest
+ * attempt is returned with `fitsTarget` false.
+ */
+export async function compressToSize(
+  image: ScanResult,
+  maxBytes: number,
+  profile: ExportProfile,
+): Promise<CompressedImage> {
+  const longSide = Math.max(image.width, image.height);
+  let dimension = profile.maxDimension > 0 ? Math.min(profile.maxDimension, longSide) : longSide;
+  const qualities = COMPRESSION_QUALITIES.filter((q) => q <= profile.quality);
+  if (qualities.length === 0) qualities.push(profile.quality);
+
+  let smallest: CompressedImage | null = null;
+  for (;;) {
+    let bytes = 0;
+    for (const quality of qualities) {
+      const encoded = await encodeImageNative(image.base64, {
+        format: 'jpeg',
+        quality,
+        maxDimension: dimension < longSide ? dimension : 0,
+      });
+      bytes = decodedLength(encoded.base64);
+      if (bytes <= maxBytes) return { image: encoded, bytes, fitsTarget: true };
+      if (!smallest || bytes < smallest.bytes) smallest = { image: encoded, bytes, fitsTarget: false };
+    }
+    if (dimension <= MIN_COMPRESSED_DIMENSION) return smallest!;
+    // Byte size scales with pixel count, so shrink both sides by the square root of the overshoot
+    const scale = Math.min(0.9, Math.max(0.5, Math.sqrt(maxBytes / bytes) * 0.95));
+    dimension = Math.max(MIN_COMPRESSED_DIMENSION, Math.round(dimension * scale));
+  }
+}
+
+/**
+ * Encodes one image for saving, compressed to the profile's target size if
+ * set, with resolution and provenance metadata embedded when given.
+ */
+export async function exportImage(
+  image: ScanResult,
+  profile: ExportProfile,
+  provenance?: ImageProvenance,
+): Promise<{ image: ScanResult; report: ExportReport }> {
+  let encoded: ScanResult;
+  if (profile.targetSizeKB > 0) {
+    const reserve = provenance ? METADATA_RESERVE_BYTES : 0;
+    encoded = (await compressToSize(image, profile.targetSizeKB * 1024 - reserve, profile)).image;
+  } else {
+    encoded = await encodeForExport(image, profile);
+  }
+  if (provenance) {
+    const base64 = embedImageMetadata(encoded.base64, {
+      // Derived from the exported pixel size, which compression and the size limit may have lowered
+      dpi: provenance.paper ? paperDpi(encoded, provenance.paper) : profile.dpi,
+      capturedAt: provenance.capturedAt,
+      software: SOFTWARE,
+      title: provenance.title,
+    });
+    encoded = { ...encoded, base64 };
+  }
+  const bytes = decodedLength(encoded.base64);
+  const fitsTarget = profile.targetSizeKB <= 0 || bytes <= profile.targetSizeKB * 1024;
+  return { image: encoded, report: { bytes, width: encoded.width, height: encoded.height, fitsTarget } };
+}
+
+/** Writes an image to a temporary file whose extension matches its actual format. */
+export function writeExportFile(image: ScanResult, name: string): File {
+  const file = new File(Paths.cache, `${name}.${imageExtension(image.base64)}`);
+  file.create();
+  file.write(image.base64, { encoding: 'base64' });
+  return file;
+}
+
+// ── Contacts ──
+
+// Long side of the card image embedded as the contact photo
+const CONTACT_PHOTO_SIZE = 640;
+
+/**
+ * Writes a business card contact to a temporary .vcf file named after the
+ * contact, with the card image embedded as a small JPEG contact photo.
+ */
+export async function writeContactFile(card: BusinessCard, cardImage: ScanResult): Promise<File> {
+  const photo = await encodeImageNative(cardImage.base64, {
+    format: 'jpeg',
+    quality: 70,
+    maxDimension: CONTACT_PHOTO_SIZE,
+  });
+  const name = (card.name || card.company).replace(/[^\p{L}\p{N} _-]/gu, '').trim() || 'contact';
+  const file = new File(Paths.cache, `${name}_${Date.now()}.vcf`);
+  file.create();
+  file.write(buildVCard(card, photo.base64));
+  return file;
+}
@@ -0,0 +1,450 @@
+import * as SQLite from 'expo-sqlite';
+import { File, Directory, Paths } from 'expo-file-system';
+import type {
+  LibraryDocument,
+  ScanPage,
+  ScannerCorners,
+  PageCurves,
+  EnhanceMode,
+  EditParams,
+  ProcessOptions,
+  IdSide,
+  PageText,
+} from '@/types';
+import { DEFAULT_EDITS, DEFAULT_PROCESS_OPTIONS } from '@/utils/scanSession';
+import { imageExtension } from '@/utils/imageFormat';
+
+const TAG = '[LibraryService]';
+const DB_NAME = 'pixnap.db';
+const SCANS_DIR = 'scans';
+
+const FULL_FRAME: ScannerCorners = {
+  tl: { x: 0, y: 0 },
+  tr: { x: 1, y: 0 },
+  br: { x: 1, y: 1 },
+  bl: { x: 0, y: 1 },
+};
+
+/**
+ * Schema migrations, applied in order. The index + 1 is stored in
+ * PRAGMA user_version, so entries must only ever be appended.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS documents (
+    id TEXT PRIMARY KEY NOT NULL,
+    title TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS pages (
+    id TEXT PRIMARY KEY NOT NULL,
+    document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    result_path TEXT NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    source_width INTEGER NOT NULL,
+    source_height INTEGER NOT NULL,
+    enhance_mode TEXT NOT NULL,
+    corners TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_pages_document ON pages(document_id, position);
+  `,
+  // v2: keep the original capture and the full edit recipe for non-destructive re-editing
+  `
+  ALTER TABLE pages ADD COLUMN source_path TEXT;
+  ALTER TABLE pages ADD COLUMN processed_path TEXT;
+  ALTER TABLE pages ADD COLUMN processed_width INTEGER;
+  ALTER TABLE pages ADD COLUMN processed_height INTEGER;
+  ALTER TABLE pages ADD COLUMN edits TEXT;
+  `,
+  // v3: per-page processing pipeline options (shadow removal, ...)
+  `
+  ALTER TABLE pages ADD COLUMN process_options TEXT;
+  `,
+  // v4: angle straightened by the deskew pass, shown (and revertible) when reopening
+  `
+  ALTER TABLE pages ADD COLUMN skew_angle REAL;
+  `,
+  // v5: book mode edge curves, part of the crop alongside the corners
+  `
+  ALTER TABLE pages ADD COLUMN curves TEXT;
+  `,
+  // v6: capture time for exported image metadata; earlier pages take their document's creation time
+  `
+  ALTER TABLE pages ADD COLUMN captured_at INTEGER;
+  UPDATE pages SET captured_at = (SELECT created_at FROM documents WHERE documents.id = pages.document_id);
+  `,
+  // v7: ID scan side, pairing a front with its back on one PDF sheet
+  `
+  ALTER TABLE pages ADD COLUMN id_side TEXT;
+  `,
+  // v8: recognized text with word boxes, kept so searchable exports skip OCR
+  `
+  ALTER TABLE pages ADD COLUMN page_text TEXT;
+  `,
+  // v9: PDF document properties and page sections, the source of bookmarks and page labels
+  `
+  ALTER TABLE documents ADD COLUMN subject TEXT;
+  ALTER TABLE documents ADD COLUMN keywords TEXT;
+  ALTER TABLE pages ADD COLUMN section TEXT;
+  `,
+];
+
+interface DocumentRow {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  page_count: number;
+  cover_path: string | null;
+  subject: string | null;
+  keywords: string | null;
+}
+
+interface PageRow {
+  id: string;
+  document_id: string;
+  position: number;
+  result_path: string;
+  width: number;
+  height: number;
+  source_width: number;
+  source_height: number;
+  enhance_mode: string;
+  corners: string;
+  source_path: string | null;
+  processed_path: string | null;
+  processed_width: number | null;
+  processed_height: number | null;
+  edits: string | null;
+  process_options: string | null;
+  skew_angle: number | null;
+  curves: string | null;
+  captured_at: number | null;
+  id_side: string | null;
+  page_text: string | null;
+  section: string | null;
+}
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+async function openDb(): Promise<SQLite.SQLiteDatabase> {
+  const db = await SQLite.openDatabaseAsync(DB_NAME);
+  await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  let version = row?.user_version ?? 0;
+  while (version < MIGRATIONS.length) {
+    console.log(TAG, `Migrating schema to v${version + 1}`);
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(MIGRATIONS[version]);
+      await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+    version++;
+  }
+  return db;
+}
+
+function getDb(): Promise<SQLite.SQLiteDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDb().catch((e) => {
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+}
+
+/** Paths are stored relative to the document directory, whose absolute path can change across app updates */
+function resolveFile(relativePath: string): File {
+  return new File(Paths.document, relativePath);
+}
+
+function documentDir(documentId: string): Directory {
+  return new Directory(Paths.document, SCANS_DIR, documentId);
+}
+
+function writeBase64(relativePath: string, base64: string): void {
+  const file = resolveFile(relativePath);
+  if (file.exists) file.delete();
+  file.create({ intermediates: true });
+  file.write(base64, { encoding: 'base64' });
+}
+
+function deleteFile(relativePath: string): void {
+  try {
+    const file = resolveFile(relativePath);
+    if (file.exists) file.delete();
+  } catch (e) {
+    console.warn(TAG, `Failed to delete ${relativePath}:`, e);
+  }
+}
+
+function toDocument(row: DocumentRow): LibraryDocument {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    pageCount: row.page_count,
+    coverUri: row.cover_path ? resolveFile(row.cover_path).uri : null,
+    subject: row.subject ?? '',
+    keywords: row.keywords ?? '',
+  };
+}
+
+export async function listDocuments(): Promise<LibraryDocument[]> {
+  const db = await getDb();
+  const rows = await db.getAllAsync<DocumentRow>(`
+    SELECT d.id, d.title, d.created_at, d.updated_at, d.subject, d.keywords,
+      (SELECT COUNT(*) FROM pages p WHERE p.document_id = d.id) AS page_count,
+      (SELECT p.result_path FROM pages p WHERE p.document_id = d.id ORDER BY p.position LIMIT 1) AS cover_path
+    FROM documents d
+    ORDER BY d.updated_at DESC
+  `);
+  return rows.map(toDocument);
+}
+
+export async function createDocument(title: string): Promise<LibraryDocument> {
+  const db = await getDb();
+  const now = Date.now();
+  const id = `doc_${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  await db.runAsync(
+    'INSERT INTO documents (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)',
+    id, title, now, now,
+  );
+  return { id, title, createdAt: now, updatedAt: now, pageCount: 0, coverUri: null, subject: '', keywords: '' };
+}
+
+export async function renameDocument(documentId: string, title: string): Promise<void> {
+  const db = await getDb();
+  await db.runAsync('UPDATE documents SET title = ?, updated_at = ? WHERE id = ?', title, Date.now(), documentId);
+}
+
+/** Saves the document properties edited before a PDF export */
+export async function updateDocumentProperties(
+  documentId: string,
+  properties: Pick<LibraryDocument, 'title' | 'subject' | 'keywords'>,
+): Promise<void> {
+  const db = await getDb();
+  await db.runAsync(
+    'UPDATE documents SET title = ?, subject = ?, keywords = ?, updated_at = ? WHERE id = ?',
+    properties.title, properties.subject, properties.keywords, Date.now(), documentId,
+  );
+}
+
+function fileExtension(uri: string): string {
+  const match = /\.([a-zA-Z0-9]+)(?:\?.*)?$/.exec(uri);
+  return match ? match[1].toLowerCase() : 'jpg';
+}
+
+/**
+ * Copies the original capture into the document folder so the page can be
+ * re-cropped later. Returns the relative path; no-op if already copied.
+ */
+function storeSource(documentId: string, page: ScanPage): string {
+  const relativePath = `${SCANS_DIR}/${documentId}/${page.id}_source.${fileExtension(page.imageUri)}`;
+  const dest = resolveFile(relativePath);
+  if (dest.uri === page.imageUri) return relativePath;
+  if (dest.exists) dest.delete();
+  const dir = documentDir(documentId);
+  if (!dir.exists) dir.create({ intermediates: true });
+  new File(page.imageUri).copy(dest);
+  return relativePath;
+}
+
+/**
+ * Writes the page images to disk and inserts or updates its row together
+ * with the recipe (corners, enhance mode, options, edits) that produced them.
+ * Call again whenever the page changes; pass `processedChanged` when the
+ * capture or crop changed rather than just the editor adjustments.
+ */
+export async function savePage(
+  documentId: string,
+  page: ScanPage,
+  position: number,
+  processedChanged = true,
+): Promise<void> {
+  const db = await getDb();
+  const base = `${SCANS_DIR}/${documentId}/${page.id}`;
+  // Extensions follow the encoded format, which can change with the export profile
+  const resultPath = `${base}.${imageExtension(page.result.base64)}`;
+  const processedPath = `${base}_processed.${imageExtension(page.processed.base64)}`;
+  const previous = await db.getFirstAsync<Pick<PageRow, 'result_path' | 'processed_path'>>(
+    'SELECT result_path, processed_path FROM pages WHERE id = ?', page.id,
+  );
+  let sourcePath: string | null = null;
+  if (processedChanged) {
+    try {
+      sourcePath = storeSource(documentId, page);
+    } catch (e) {
+      console.warn(TAG, `Failed to store source for ${page.id}:`, e);
+    }
+    writeBase64(processedPath, page.processed.base64);
+  }
+  writeBase64(resultPath, page.result.base64);
+  await db.runAsync(
+    `INSERT INTO pages (id, document_id, position, result_path, width, height, source_width, source_height,
+       enhance_mode, corners, curves, source_path, processed_path, processed_width, processed_height, skew_angle,
+       edits, process_options, captured_at, id_side, page_text, section)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       position = excluded.position, result_path = excluded.result_path,
+       width = excluded.width, height = excluded.height,
+       source_width = excluded.source_width, source_height = excluded.source_height,
+       enhance_mode = excluded.enhance_mode, corners = excluded.corners, curves = excluded.curves,
+       source_path = COALESCE(excluded.source_path, pages.source_path),
+       processed_path = COALESCE(excluded.processed_path, pages.processed_path),
+       processed_width = COALESCE(excluded.processed_width, pages.processed_width),
+       processed_height = COALESCE(excluded.processed_height, pages.processed_height),
+       skew_angle = CASE WHEN excluded.processed_path IS NULL THEN pages.skew_angle ELSE excluded.skew_angle END,
+       edits = excluded.edits, process_options = excluded.process_options,
+       captured_at = excluded.captured_at, id_side = excluded.id_side, page_text = excluded.page_text,
+       section = excluded.section`,
+    page.id, documentId, position, resultPath,
+    page.result.width, page.result.height,
+    page.imageWidth, page.imageHeight,
+    page.enhanceMode, JSON.stringify(page.corners),
+    page.curves ? JSON.stringify(page.curves) : null,
+    sourcePath,
+    processedChanged ? processedPath : null,
+    processedChanged ? page.processed.width : null,
+    processedChanged ? page.processed.height : null,
+    processedChanged ? page.processed.skewAngle ?? 0 : null,
+    JSON.stringify(page.edits),
+    JSON.stringify(page.processOptions),
+    page.capturedAt,
+    page.idSide ?? null,
+    page.text ? JSON.stringify(page.text) : null,
+    page.section ?? null,
+  );
+  await db.runAsync('UPDATE documents SET updated_at = ? WHERE id = ?', Date.now(), documentId);
+  if (previous && previous.result_path !== resultPath) deleteFile(previous.result_path);
+  if (processedChanged && previous?.processed_path && previous.processed_path !== processedPath) {
+    deleteFile(previous.processed_path);
+  }
+}
+
+/**
+ * Brings page order in line with `pageIds` and removes pages (and their
+ * files) that are no longer part of the document.
+ */
+export async function syncPageOrder(documentId: string, pageIds: string[]): Promise<void> {
+  const db = await getDb();
+  const rows = await db.getAllAsync<PageRow>('SELECT * FROM pages WHERE document_id = ?', documentId);
+  const removed = rows.filter((r) => !pageIds.includes(r.id));
+  await db.withTransactionAsync(async () => {
+    for (const r of removed) {
+      await db.runAsync('DELETE FROM pages WHERE id = ?', r.id);
+    }
+    for (let i = 0; i < pageIds.length; i++) {
+      await db.runAsync('UPDATE pages SET position = ? WHERE id = ?', i, pageIds[i]);
+    }
+    await db.runAsync('UPDATE documents SET updated_at = ? WHERE id = ?', Date.now(), documentId);
+  });
+  for (const r of removed) {
+    deleteFile(r.result_path);
+    if (r.source_path) deleteFile(r.source_path);
+    if (r.processed_path) deleteFile(r.processed_path);
+  }
+}
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Loads a saved document back into session pages, in page order, with the
+ * original capture and recipe restored where available.
+ */
+export async function loadDocumentPages(documentId: string): Promise<ScanPage[]> {
+  const db = await getDb();
+  const rows = await db.getAllAsync<PageRow>(
+    'SELECT * FROM pages WHERE document_id = ? ORDER BY position',
+    documentId,
+  );
+  const pages: ScanPage[] = [];
+  for (const row of rows) {
+    const file = resolveFile(row.result_path);
+    if (!file.exists) {
+      console.warn(TAG, `Missing page file ${row.result_path}`);
+      continue;
+    }
+    const base64 = await file.base64();
+    const result = { base64, width: row.width, height: row.height };
+    const processOptions = {
+      ...DEFAULT_PROCESS_OPTIONS,
+      ...parseJson<Partial<ProcessOptions>>(row.process_options, {}),
+    };
+    const capturedAt = row.captured_at ?? Date.now();
+    const idSide = (row.id_side as IdSide | null) ?? undefined;
+    const text = parseJson<PageText | null>(row.page_text, null) ?? undefined;
+    const section = row.section ?? undefined;
+    const source = row.source_path ? resolveFile(row.source_path) : null;
+    const processedFile = row.processed_path ? resolveFile(row.processed_path) : null;
+
+    if (!source?.exists || !processedFile?.exists) {
+      // Pages saved before v2 only kept the final output, so they are re-cropped from that image
+      pages.push({
+        id: row.id,
+        imageUri: file.uri,
+        imageWidth: row.width,
+        imageHeight: row.height,
+        capturedAt,
+        corners: FULL_FRAME,
+        curves: null,
+        enhanceMode: row.enhance_mode as EnhanceMode,
+        processOptions,
+        edits: DEFAULT_EDITS,
+        idSide,
+        text,
+        section,
+        processed: result,
+        result,
+      });
+      continue;
+    }
+
+    const edits = { ...DEFAULT_EDITS, ...parseJson<Partial<EditParams>>(row.edits, {}) };
+    pages.push({
+      id: row.id,
+      imageUri: source.uri,
+      imageWidth: row.source_width,
+      imageHeight: row.source_height,
+      capturedAt,
+      corners: parseJson<ScannerCorners>(row.corners, FULL_FRAME),
+      curves: parseJson<PageCurves | null>(row.curves, null),
+      enhanceMode: row.enhance_mode as EnhanceMode,
+      processOptions,
+      edits,
+      idSide,
+      text,
+      section,
+      processed: {
+        base64: await processedFile.base64(),
+        width: row.processed_width ?? row.width,
+        height: row.processed_height ?? row.height,
+        skewAngle: row.skew_angle ?? undefined,
+      },
+      result,
+    });
+  }
+  return pages;
+}
+
+export async function deleteDocument(documentId: string): Promise<void> {
+  const db = await getDb();
+  await db.runAsync('DELETE FROM documents WHERE id = ?', documentId);
+  try {
+    const dir = documentDir(documentId);
+    if (dir.exists) dir.delete();
+  } catch (e) {
+    console.warn(TAG, `Failed to delete files for ${documentId}:`, e);
+  }
+}
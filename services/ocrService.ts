@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { recognizeText } from '@/modules/document-detection/src';
+import type { OcrLanguage, PageText, ScanResult } from '@/types';
+
+export const OCR_LANGUAGES: OcrLanguage[] = ['en', 'es', 'fr', 'pt', 'ar', 'zh', 'ja', 'ko'];
+
+const LANGUAGE_KEY = 'pixnap_ocr_language';
+
+function isOcrLanguage(code: string | null | undefined): code is OcrLanguage {
+  return OCR_LANGUAGES.includes(code as OcrLanguage);
+}
+
+/** Last recognition language picked by the user, else the app language */
+export async function loadOcrLanguage(appLanguage: string): Promise<OcrLanguage> {
+  try {
+    const saved = await AsyncStorage.getItem(LANGUAGE_KEY);
+    if (isOcrLanguage(saved)) return saved;
+  } catch {}
+  return isOcrLanguage(appLanguage) ? appLanguage : 'en';
+}
+
+export async function saveOcrLanguage(language: OcrLanguage): Promise<void> {
+  await AsyncStorage.setItem(LANGUAGE_KEY, language);
+}
+
+/**
+ * Recognizes the text of a page image on-device. Empty lines and words are
+ * dropped so the text layer only holds what was actually read.
+ */
+export async function recognizePage(image: ScanResult, language: OcrLanguage): Promise<PageText> {
+  const recognized = await recognizeText(image.base64, { language });
+  const lines = recognized.lines
+    .map((line) => ({
+      text: line.text.trim(),
+      box: line.box,
+      words: line.words
+        .map((word) => ({ text: word.text.trim(), box: word.box }))
+        .filter((word) => word.text),
+    }))
+    .filter((line) => line.text);
+  return { language, text: lines.map((l) => l.text).join('\n'), lines };
+}
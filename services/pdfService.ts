@@ -1,41 +1,225 @@
-import { printToFileAsync } from 'expo-print';
+import { File, Paths } from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_EXPORT_PROFILE,
+  SOFTWARE,
+  compressToSize,
+  encodeForExport,
+  type ExportProfile,
+  type ExportReport,
+} from '@/services/exportService';
+import { decodeBase64 } from '@/utils/base64';
+import {
+  layoutCardSheet,
+  layoutPdfPage,
+  layoutReceiptPage,
+  pdfOutline,
+  sourceImages,
+  type PdfImage,
+  type PdfLayoutOptions,
+  type PdfPageSize,
+  type PdfPageSource,
+  type PdfScaleMode,
+  type PdfSheetLayout,
+} from '@/utils/pdfLayout';
+import { createPdfWriter, type PdfDocument, type PdfPlacedImage } from '@/utils/pdfWriter';
+import type { ScanResult } from '@/types';
+
+/** Text layer under the page images; 'recognize' reads pages without text before export */
+export type PdfTextLayer = 'existing' | 'recognize';
+
+export interface PdfExportOptions extends PdfLayoutOptions {
+  /** Author recorded in every exported document */
+  author: string;
+  textLayer: PdfTextLayer;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
+  pageSize: 'a4',
+  margin: 40,
+  scaleMode: 'fit',
+  author: '',
+  textLayer: 'existing',
+};
+
+/** Per-document properties, edited before each export */
+export interface PdfMetadata {
+  title: string;
+  subject: string;
+  keywords: string;
+}
+
+export const PDF_PAGE_SIZES: PdfPageSize[] = ['a4', 'letter', 'legal', 'a5', 'fit'];
+export const PDF_SCALE_MODES: PdfScaleMode[] = ['fit', 'fill', 'actual'];
+export const PDF_MARGINS = [0, 20, 40, 72];
+export const PDF_TEXT_LAYERS: PdfTextLayer[] = ['existing', 'recognize'];
+
+const OPTIONS_KEY = 'pixnap_pdf_options';
+
+// Rounds of image downsampling tried to bring a PDF under the target size
+const PDF_SIZE_ATTEMPTS = 3;
+// Share of the target size given to images; the rest covers the PDF structure
+const PDF_IMAGE_BUDGET = 0.95;
+
+export interface PdfExport {
+  uri: string;
+  report: ExportReport;
+}
+
+export async function loadPdfOptions(): Promise<PdfExportOptions> {
+  try {
+    const raw = await AsyncStorage.getItem(OPTIONS_KEY);
+    if (raw) return { ...DEFAULT_PDF_OPTIONS, ...JSON.parse(raw) };
+  } catch {
+    // ignore parse errors
+  }
+  return DEFAULT_PDF_OPTIONS;
+}
+
+export async function savePdfOptions(options: PdfExportOptions): Promise<void> {
+  await AsyncStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+}
 
 /**
  * Generates a PDF file containing the scanned image.
  * Returns the file URI of the created PDF.
  */
-export async function generatePdf(base64Png: string, width: number, height: number): Promise<string> {
-  const aspect = width / height;
-  const pageWidth = 595; // A4 points width
-  const margin = 40;
-  const imgWidth = pageWidth - margin * 2;
-  const imgHeight = imgWidth / aspect;
-
-  const html = `
-    <html>
-      <head>
-        <meta charset="utf-8" />
-        <style>
-          body {
-            margin: 0;
-            padding: ${margin}px;
-            display: flex;
-            justify-content: center;
-            align-items: flex-start;
-          }
-          img {
-            width: ${imgWidth}px;
-            height: ${imgHeight}px;
-            object-fit: contain;
-          }
-        </style>
-      </head>
-      <body>
-        <img src="data:image/png;base64,${base64Png}" />
-      </body>
-    </html>
-  `;
-
-  const { uri } = await printToFileAsync({ html });
+export async function generatePdf(
+  base64Png: string,
+  width: number,
+  height: number,
+  options: PdfExportOptions = DEFAULT_PDF_OPTIONS,
+  profile: ExportProfile = DEFAULT_EXPORT_PROFILE,
+): Promise<string> {
+  const { uri } = await generateMultiPagePdf([{ base64: base64Png, width, height }], options, profile);
   return uri;
 }
+
+/**
+ * Generates a single PDF with one page per source, in order, with the
+ * images encoded as JPEG at the export profile's quality and size limit.
+ * With a target size, page images are downsampled further until the whole
+ * file fits or the attempts run out. The document gets the metadata, an
+ * outline and page labels.
+ */
+export async function generateMultiPagePdf(
+  pages: PdfPageSource[],
+  options: PdfExportOptions = DEFAULT_PDF_OPTIONS,
+  profile: ExportProfile = DEFAULT_EXPORT_PROFILE,
+  metadata?: PdfMetadata,
+): Promise<PdfExport> {
+  if (pages.length === 0) throw new Error('No pages to export');
+
+  // Laid out from the processed size, so a smaller export size lowers resolution, not page size
+  const layouts = pages.map((page): PdfSheetLayout => {
+    if ('cards' in page) return layoutCardSheet(page, options);
+    const { pageWidth, pageHeight, ...box } = 'receipt' in page
+      ? layoutReceiptPage(page.receipt, options)
+      : layoutPdfPage(page, options, profile.dpi);
+    return { pageWidth, pageHeight, boxes: [box] };
+  });
+  const sources = pages.map(sourceImages);
+  const document: PdfDocument = {
+    info: {
+      title: metadata?.title.trim(),
+      author: options.author.trim(),
+      subject: metadata?.subject.trim(),
+      keywords: metadata?.keywords.trim(),
+      creator: SOFTWARE,
+      creationDate: Date.now(),
+    },
+    ...pdfOutline(pages),
+  };
+  const report = ({ uri, largest }: WrittenPdf, fitsTarget: boolean): PdfExport => ({
+    uri,
+    report: { bytes: new File(uri).size, width: largest.width, height: largest.height, fitsTarget },
+  });
+
+  if (profile.targetSizeKB <= 0) {
+    // The writer embeds JPEG streams as they are, so PDF pages are JPEG whatever the profile format
+    const jpegProfile: ExportProfile = { ...profile, format: 'jpeg' };
+    return report(await writePdf(sources, layouts, options, document, (image) => encodeForExport(image, jpegProfile)), true);
+  }
+
+  // The image budget is split by pixel count and shrunk by the overshoot of each attempt
+  const target = profile.targetSizeKB * 1024;
+  const totalPixels = sources.flat().reduce((sum, p) => sum + p.width * p.height, 0);
+  let budget = target * PDF_IMAGE_BUDGET;
+  for (let attempt = 1; ; attempt++) {
+    const share = budget / totalPixels;
+    const pdf = await writePdf(sources, layouts, options, document, async (image) =>
+      (await compressToSize(image, share * image.width * image.height, profile)).image);
+    const bytes = new File(pdf.uri).size;
+    if (bytes <= target || attempt === PDF_SIZE_ATTEMPTS) return report(pdf, bytes <= target);
+    new File(pdf.uri).delete();
+    budget *= (target / bytes) * PDF_IMAGE_BUDGET;
+  }
+}
+
+interface WrittenPdf {
+  uri: string;
+  /** Largest image in the file, in pixels */
+  largest: { width: number; height: number };
+}
+
+/**
+ * Encodes page images one at a time and streams each page to a PDF file as
+ * soon as it is ready, so only one page is held in memory.
+ */
+async function writePdf(
+  sources: PdfImage[][],
+  layouts: PdfSheetLayout[],
+  options: PdfExportOptions,
+  document: PdfDocument,
+  encode: (image: ScanResult) => Promise<ScanResult>,
+): Promise<WrittenPdf> {
+  const margin = Math.max(0, options.margin);
+  const file = new File(Paths.cache, `scan_${Date.now()}.pdf`);
+  file.create({ overwrite: true });
+  const handle = file.open();
+  const largest = { width: 0, height: 0 };
+  try {
+    const writer = createPdfWriter((chunk) => handle.writeBytes(chunk));
+    for (let i = 0; i < sources.length; i++) {
+      const l = layouts[i];
+      const images: PdfPlacedImage[] = [];
+      for (let j = 0; j < sources[i].length; j++) {
+        const source = sources[i][j];
+        const image = await encode(source);
+        if (image.width * image.height > largest.width * largest.height) {
+          largest.width = image.width;
+          largest.height = image.height;
+        }
+        const box = l.boxes[j];
+        images.push({
+          jpeg: decodeBase64(image.base64),
+          x: margin + box.imgLeft,
+          y: margin + box.imgTop,
+          width: box.imgWidth,
+          height: box.imgHeight,
+          // Boxes are normalized, so the text recognized on the source fits the encoded image
+          text: source.text,
+        });
+      }
+      writer.addPage({
+        width: l.pageWidth,
+        height: l.pageHeight,
+        // 'fill' images overflow the printable area and are clipped to it
+        clip: {
+          x: margin,
+          y: margin,
+          width: Math.max(1, l.pageWidth - margin * 2),
+          height: Math.max(1, l.pageHeight - margin * 2),
+        },
+        images,
+      });
+    }
+    writer.finish(document);
+  } catch (e) {
+    handle.close();
+    file.delete();
+    throw e;
+  }
+  handle.close();
+  return { uri: file.uri, largest };
+}
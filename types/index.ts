@@ -1 +1,2 @@
 export * from './scanner';
+export * from './library';
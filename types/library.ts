@@ -0,0 +1,14 @@
+/** A saved multi-page document in the local scan library */
+export interface LibraryDocument {
+  id: string;
+  title: string;
+  /** Unix epoch milliseconds */
+  createdAt: number;
+  updatedAt: number;
+  pageCount: number;
+  /** File URI of the first page, used as the list thumbnail */
+  coverUri: string | null;
+  /** PDF document properties, edited before export */
+  subject: string;
+  keywords: string;
+}
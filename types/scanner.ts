@@ -12,8 +12,32 @@ export interface ScannerCorners {
   bl: ScannerCorner;
 }
 
-/** Image enhancement mode */
-export type EnhanceMode = 'bw' | 'gray' | 'color';
+/**
+ * Book mode control points on the top and bottom page edges, at 1/3 and 2/3
+ * of the way from the left to the right corner. The edge curve passes
+ * through both points and the two corners.
+ */
+export interface PageCurves {
+  top: [ScannerCorner, ScannerCorner];
+  bottom: [ScannerCorner, ScannerCorner];
+}
+
+/**
+ * Gutter of a two-page book spread, as fractions (0-1) along the top edge
+ * (tl to tr) and the bottom edge (bl to br) of the crop.
+ */
+export interface SpreadGutter {
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Image enhancement mode.
+ * 'magic' flattens the paper to white while keeping ink colours saturated,
+ * 'whiteboard' removes glare and boosts marker strokes, 'photo' only
+ * corrects perspective and leaves tones untouched.
+ */
+export type EnhanceMode = 'bw' | 'gray' | 'color' | 'magic' | 'whiteboard' | 'photo';
 
 /** Result returned after scanning and processing */
 export interface ScanResult {
@@ -21,11 +45,133 @@ export interface ScanResult {
   base64: string;
   width: number;
   height: number;
+  /** Clockwise tilt in degrees removed by the deskew pass; absent or 0 when none was applied */
+  skewAngle?: number;
 }
 
 /** Filter preview thumbnails for each enhancement mode */
-export interface FilterPreviews {
-  bw: string;
-  gray: string;
-  color: string;
+export type FilterPreviews = Record<EnhanceMode, string>;
+
+/** Manual adjustments applied in the editor on top of the processed scan */
+export interface EditParams {
+  rotation: number;
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  warmth: number;
+  sepia: number;
+  grayscale: number;
+}
+
+/** File format of encoded page images */
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+/** How processed and edited page images are encoded */
+export interface ImageEncoding {
+  format: ImageFormat;
+  /** 1-100; ignored for lossless PNG */
+  quality: number;
+}
+
+/** Thresholding algorithm used by the B&W mode */
+export type BinarizationMethod = 'mean' | 'sauvola' | 'wolf' | 'otsu';
+
+/** Document formats a page's proportions can snap to */
+export type PaperShape = 'a4' | 'letter' | 'receipt' | 'idCard' | 'passport' | 'businessCard';
+
+/** Identity documents scanned front and back: ID-1 cards and ID-3 passport pages */
+export type IdShape = Extract<PaperShape, 'idCard' | 'passport'>;
+
+export type IdSide = 'front' | 'back';
+
+/** Wallet-sized formats cropped against a guide box with their fixed proportions */
+export type CardShape = IdShape | 'businessCard';
+
+/** 'off' keeps the estimated proportions; 'auto' snaps to the closest known format */
+export type PaperSnap = 'off' | 'auto' | PaperShape;
+
+/** Optional stages of the processing pipeline, chosen per page */
+export interface ProcessOptions {
+  /** Estimate the lighting and divide it out before enhancement, removing shadows and gradients */
+  removeShadows: boolean;
+  /** Straighten small (±5°) text tilt left over after perspective correction */
+  deskew: boolean;
+  binarization: BinarizationMethod;
+  /** 0-100; higher keeps fainter strokes as ink in B&W mode */
+  sensitivity: number;
+  /** Drop ink specks too small to be text after thresholding */
+  despeckle: boolean;
+  /** Longest side of the processed page in pixels; larger crops are scaled down */
+  maxOutputSize: number;
+  /** Known paper format the output proportions snap to */
+  paperSnap: PaperSnap;
+}
+
+/** A single page of a multi-page scan session */
+export interface ScanPage {
+  id: string;
+  /** URI of the original capture */
+  imageUri: string;
+  imageWidth: number;
+  imageHeight: number;
+  /** When the original was captured, epoch milliseconds */
+  capturedAt: number;
+  corners: ScannerCorners;
+  /** Curved top/bottom edges for book pages; null for a flat quadrilateral crop */
+  curves: PageCurves | null;
+  enhanceMode: EnhanceMode;
+  processOptions: ProcessOptions;
+  edits: EditParams;
+  /** Rotation pre-set by orientation detection, until the user undoes or changes it */
+  autoRotation?: number;
+  /** Side of an ID scan; a front followed by its back share one PDF sheet */
+  idSide?: IdSide;
+  /** Recognized text of `result`; dropped when the page geometry changes */
+  text?: PageText;
+  /** Title of the section this page starts, used for PDF bookmarks and page labels */
+  section?: string;
+  /** Perspective-corrected output before editor adjustments */
+  processed: ScanResult;
+  /** Final output with editor adjustments applied */
+  result: ScanResult;
+}
+
+/** Languages read by on-device text recognition, matching the app languages */
+export type OcrLanguage = 'en' | 'es' | 'fr' | 'pt' | 'ar' | 'zh' | 'ja' | 'ko';
+
+/** Normalized (0-1) rectangle on the page image, top-left origin */
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextWord {
+  text: string;
+  box: TextBox;
+}
+
+/** A line of recognized text with its words in reading order */
+export interface TextLine {
+  text: string;
+  box: TextBox;
+  words: TextWord[];
+}
+
+/** Text recognized on a page's final image */
+export interface PageText {
+  language: OcrLanguage;
+  /** Lines joined with newlines */
+  text: string;
+  lines: TextLine[];
+}
+
+/** Contact details read from a business card, edited by the user before export */
+export interface BusinessCard {
+  name: string;
+  company: string;
+  phone: string;
+  email: string;
+  address: string;
 }
@@ -0,0 +1,50 @@
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const LOOKUP = new Uint8Array(128);
+for (let i = 0; i < ALPHABET.length; i++) LOOKUP[ALPHABET.charCodeAt(i)] = i;
+
+// Characters per string chunk when encoding, to avoid quadratic concatenation
+const ENCODE_CHUNK = 24576;
+
+/** Number of bytes encoded by a base64 string without line breaks */
+export function decodedLength(base64: string): number {
+  let len = base64.length;
+  while (len > 0 && base64.charCodeAt(len - 1) === 61) len--;
+  return Math.floor((len * 3) / 4);
+}
+
+/** Decodes base64 without line breaks into bytes. */
+export function decodeBase64(base64: string): Uint8Array {
+  const out = new Uint8Array(decodedLength(base64));
+  let o = 0;
+  for (let i = 0; i < base64.length && o < out.length; i += 4) {
+    const n =
+      (LOOKUP[base64.charCodeAt(i)] << 18) |
+      (LOOKUP[base64.charCodeAt(i + 1)] << 12) |
+      (LOOKUP[base64.charCodeAt(i + 2) & 127] << 6) |
+      LOOKUP[base64.charCodeAt(i + 3) & 127];
+    out[o++] = n >> 16;
+    if (o < out.length) out[o++] = (n >> 8) & 255;
+    if (o < out.length) out[o++] = n & 255;
+  }
+  return out;
+}
+
+/** Encodes bytes as base64 with padding and no line breaks. */
+export function encodeBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    chunk +=
+      ALPHABET[n >> 18] +
+      ALPHABET[(n >> 12) & 63] +
+      (i + 1 < bytes.length ? ALPHABET[(n >> 6) & 63] : '=') +
+      (i + 2 < bytes.length ? ALPHABET[n & 63] : '=');
+    if (chunk.length >= ENCODE_CHUNK) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+  }
+  chunks.push(chunk);
+  return chunks.join('');
+}
@@ -0,0 +1,137 @@
+import type { BusinessCard, TextLine } from '@/types';
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const WEBSITE = /^(?:https?:\/\/|www\.)\S+$|^[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?:\/\S*)?$/i;
+const PHONE_LABEL = /^(?:tel|phone|mobile|mob|cell|office|direct|t|m|p|ph)\.?\s*[:.]?\s*/i;
+const FAX_LABEL = /^(?:fax|f)\.?\s*[:.]?\s*/i;
+const PHONE = /^\+?[\d\s().\/-]+$/;
+const COMPANY =
+  /\b(?:inc|ltd|llc|llp|plc|gmbh|ag|corp|corporation|company|co|group|holdings|s\.a|s\.l|sarl|k\.k)\b\.?|株式会社|有限会社|有限公司|公司|주식회사/i;
+const ADDRESS =
+  /\b(?:street|st|road|rd|avenue|ave|boulevard|blvd|lane|ln|drive|dr|suite|ste|floor|fl|building|bldg|po box|calle|avenida|rue|rua|straße|strasse)\b|\b\d{5}(?:-\d{4})?\b|^〒|丁目|番地|[市区町村]\S*\d|[路街道]\S*号|[로길]\s*\d/i;
+const JOB_TITLE =
+  /\b(?:manager|director|engineer|president|ceo|cto|cfo|coo|founder|sales|officer|consultant|designer|developer|partner|head|lead|vp|specialist|representative|assistant|executive)\b|部長|課長|社長|取締役|经理|总监|부장|대표/i;
+// Names are short runs of letters: 2-4 Latin words or 2-4 CJK/Hangul characters
+const LATIN_NAME = /^[\p{L}.'-]+(?:\s+[\p{L}.'-]+){1,3}$/u;
+const CJK = /[\p{Script=Han}\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const CJK_NAME = /^[\p{Script=Han}\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}]{2,4}$/u;
+
+function digitCount(text: string): number {
+  return text.replace(/\D/g, '').length;
+}
+
+function isPhone(text: string): boolean {
+  const digits = digitCount(text);
+  return PHONE.test(text) && digits >= 7 && digits <= 15;
+}
+
+/**
+ * Sorts recognized lines into contact fields. Labelled or pattern-like
+ * lines (email, phone, address, company suffixes) are matched first; the
+ * name is then the largest remaining line shaped like a name, since cards
+ * print it in the biggest type.
+ */
+export function parseBusinessCard(lines: TextLine[]): BusinessCard {
+  const card: BusinessCard = { name: '', company: '', phone: '', email: '', address: '' };
+  const addressLines: string[] = [];
+  const rest: TextLine[] = [];
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) continue;
+    const email = text.match(EMAIL);
+    if (email) {
+      if (!card.email) card.email = email[0];
+      continue;
+    }
+    if (FAX_LABEL.test(text) && isPhone(text.replace(FAX_LABEL, ''))) continue;
+    const phone = text.replace(PHONE_LABEL, '');
+    if (isPhone(phone)) {
+      if (!card.phone) card.phone = phone.trim();
+      continue;
+    }
+    if (WEBSITE.test(text)) continue;
+    if (ADDRESS.test(text)) {
+      addressLines.push(text);
+      continue;
+    }
+    if (!card.company && COMPANY.test(text)) {
+      card.company = text;
+      continue;
+    }
+    rest.push({ ...line, text });
+  }
+  card.address = addressLines.join(', ');
+
+  const candidates = rest.filter((l) => !JOB_TITLE.test(l.text) && digitCount(l.text) === 0);
+  const names = candidates.filter((l) => LATIN_NAME.test(l.text) || CJK_NAME.test(l.text));
+  const name = names.reduce<TextLine | null>((a, b) => (!a || b.box.height > a.box.height ? b : a), null);
+  if (name) card.name = name.text;
+  // Without a legal suffix the company is usually the other prominent line, e.g. a logo wordmark
+  if (!card.company) {
+    const company = candidates
+      .filter((l) => l !== name)
+      .reduce<TextLine | null>((a, b) => (!a || b.box.height > a.box.height ? b : a), null);
+    if (company) card.company = company.text;
+  }
+  return card;
+}
+
+// ── vCard 3.0 ──
+
+function escapeValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([;,])/g, '\\$1');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+// Content lines are folded at 75 octets, continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+/**
+ * Serializes a contact as a vCard 3.0 file. `photoJpeg` (base64) is embedded
+ * as the contact photo, so the card image travels with the contact.
+ */
+export function buildVCard(card: BusinessCard, photoJpeg?: string): string {
+  const name = card.name.trim();
+  // Latin names end with the family name; CJK names start with it
+  const words = name.split(/\s+/).filter(Boolean);
+  let structured = [name, ''];
+  if (words.length > 1) {
+    structured = CJK.test(name)
+      ? [words[0], words.slice(1).join(' ')]
+      : [words[words.length - 1], words.slice(0, -1).join(' ')];
+  }
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${structured.map(escapeValue).join(';')};;;`,
+    `FN:${escapeValue(name || card.company.trim())}`,
+  ];
+  if (card.company.trim()) lines.push(`ORG:${escapeValue(card.company.trim())}`);
+  if (card.phone.trim()) lines.push(`TEL;TYPE=WORK,VOICE:${escapeValue(card.phone.trim())}`);
+  if (card.email.trim()) lines.push(`EMAIL;TYPE=INTERNET:${escapeValue(card.email.trim())}`);
+  if (card.address.trim()) lines.push(`ADR;TYPE=WORK:;;${escapeValue(card.address.trim())};;;;`);
+  if (photoJpeg) lines.push(`PHOTO;ENCODING=b;TYPE=JPEG:${photoJpeg}`);
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
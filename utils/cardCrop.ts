@@ -0,0 +1,58 @@
+import type { CardShape, IdShape, PaperSnap, ScannerCorners } from '@/types';
+import { estimateAspectRatio } from '@/utils/pageAspect';
+import { PAPER_SHAPES } from '@/utils/paperSizes';
+
+// Relative difference within which a detected quad is taken to be the expected card
+const CARD_ASPECT_TOLERANCE = 0.12;
+// Share of the frame covered by the guide box along its limiting side
+const GUIDE_COVERAGE = 0.8;
+
+/** Whether a paper snap already targets an identity document */
+export function isIdShape(snap: PaperSnap): snap is IdShape {
+  return snap === 'idCard' || snap === 'passport';
+}
+
+/** Identity document an ID scan expects, from the paper snap it runs with */
+export function idShapeOf(snap: PaperSnap): IdShape {
+  return snap === 'passport' ? 'passport' : 'idCard';
+}
+
+/** Landscape width/height ratio of a card format */
+export function cardAspectRatio(shape: CardShape): number {
+  const { width, height } = PAPER_SHAPES[shape];
+  return (height ?? width) / width;
+}
+
+/**
+ * Crop for an ID or business card capture: the detected quad when its real
+ * proportions match the card in either orientation, otherwise a centred guide
+ * box with the card's landscape proportions for the user to adjust.
+ */
+export function cardCorners(
+  detected: ScannerCorners | null,
+  imageSize: { width: number; height: number },
+  shape: CardShape,
+): ScannerCorners {
+  const expected = cardAspectRatio(shape);
+  if (detected) {
+    const ratio = estimateAspectRatio(detected, imageSize.width, imageSize.height);
+    if (ratio !== null) {
+      const landscapeRatio = ratio > 1 ? ratio : 1 / ratio;
+      if (Math.abs(landscapeRatio - expected) / expected < CARD_ASPECT_TOLERANCE) return detected;
+    }
+  }
+  let boxW = imageSize.width * GUIDE_COVERAGE;
+  let boxH = boxW / expected;
+  if (boxH > imageSize.height * GUIDE_COVERAGE) {
+    boxH = imageSize.height * GUIDE_COVERAGE;
+    boxW = boxH * expected;
+  }
+  const x0 = (1 - boxW / imageSize.width) / 2;
+  const y0 = (1 - boxH / imageSize.height) / 2;
+  return {
+    tl: { x: x0, y: y0 },
+    tr: { x: 1 - x0, y: y0 },
+    br: { x: 1 - x0, y: 1 - y0 },
+    bl: { x: x0, y: 1 - y0 },
+  };
+}
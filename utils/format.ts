@@ -0,0 +1,15 @@
+function pad2(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+/** Formats an epoch-millisecond timestamp as `YYYY-MM-DD HH:mm` in local time. */
+export function formatTimestamp(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())} ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+}
+
+/** Formats a byte count as KB below one megabyte and MB above, e.g. `840 KB`, `1.4 MB`, `2 MB`. */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+}
@@ -0,0 +1,24 @@
+import type { ImageFormat } from '@/types';
+
+/**
+ * Format of a base64-encoded image, read from its signature. Encoders can fall
+ * back to another format than requested, so the bytes are the source of truth.
+ */
+export function imageFormat(base64: string): ImageFormat {
+  if (base64.startsWith('iVBOR')) return 'png';
+  if (base64.startsWith('UklGR')) return 'webp';
+  return 'jpeg';
+}
+
+export function imageMime(base64: string): string {
+  return `image/${imageFormat(base64)}`;
+}
+
+export function imageExtension(base64: string): string {
+  const format = imageFormat(base64);
+  return format === 'jpeg' ? 'jpg' : format;
+}
+
+export function imageDataUri(base64: string): string {
+  return `data:${imageMime(base64)};base64,${base64}`;
+}
@@ -0,0 +1,381 @@
+import { decodeBase64, decodedLength, encodeBase64 } from '@/utils/base64';
+import { imageFormat } from '@/utils/imageFormat';
+
+/**
+ * Resolution and provenance written into exported JPEG and PNG files: JFIF
+ * density, EXIF and XMP for JPEG; pHYs, text chunks and XMP for PNG.
+ */
+export interface ImageMetadata {
+  /** Physical resolution in dots per inch */
+  dpi: number;
+  /** Capture time, epoch milliseconds */
+  capturedAt: number;
+  software: string;
+  title?: string;
+}
+
+/**
+ * Returns the image with its metadata replaced by `metadata`. Only the header
+ * is decoded and rewritten; the compressed image data is carried over as
+ * base64, so this stays cheap for full-resolution files. Other formats are
+ * returned unchanged.
+ */
+export function embedImageMetadata(base64: string, metadata: ImageMetadata): string {
+  const format = imageFormat(base64);
+  if (format === 'jpeg') return spliceHeader(base64, parseJpegHeader, (kept, pad) => jpegHeader(kept, metadata, pad));
+  if (format === 'png') return spliceHeader(base64, parsePngHeader, (kept, pad) => pngHeader(kept, metadata, pad));
+  return base64;
+}
+
+/** Parses an EXIF `YYYY:MM:DD HH:MM:SS` local time into epoch milliseconds. */
+export function parseExifDate(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const m = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!m) return undefined;
+  const time = new Date(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// ── Header splicing ──
+
+/** Header segments to keep, and the byte offset where image data begins */
+interface ParsedHeader {
+  kept: Uint8Array[];
+  end: number;
+}
+
+// Header bytes decoded up front; doubled until the parser reaches the image data
+const INITIAL_HEADER_BYTES = 65536;
+
+/**
+ * Rebuilds the header and re-encodes it together with the few bytes up to the
+ * next 3-byte boundary, so the rest of the base64 string can be appended as
+ * is. `build` pads the XMP packet by `padding` bytes to land on that boundary.
+ */
+function spliceHeader(
+  base64: string,
+  parse: (bytes: Uint8Array, complete: boolean) => ParsedHeader | null | 'invalid',
+  build: (kept: Uint8Array[], padding: number) => Uint8Array,
+): string {
+  const total = decodedLength(base64);
+  let parsed: ParsedHeader | null | 'invalid' = null;
+  for (let size = INITIAL_HEADER_BYTES; parsed === null; size *= 2) {
+    const complete = size >= total;
+    parsed = parse(decodeBase64(base64.slice(0, Math.ceil(size / 3) * 4)), complete);
+    if (parsed === null && complete) return base64;
+  }
+  if (parsed === 'invalid') return base64;
+
+  const alignedEnd = Math.min(Math.ceil(parsed.end / 3) * 3, total);
+  const tail = decodeBase64(base64.slice(0, Math.ceil(alignedEnd / 3) * 4)).subarray(parsed.end, alignedEnd);
+  let header = build(parsed.kept, 0);
+  if (alignedEnd < total) {
+    const padding = (3 - ((header.length + tail.length) % 3)) % 3;
+    if (padding) header = build(parsed.kept, padding);
+  }
+  const head = encodeBase64(concatBytes([header, tail]));
+  return alignedEnd < total ? head + base64.slice((alignedEnd / 3) * 4) : head;
+}
+
+// ── JPEG ──
+
+const JFIF_ID = 'JFIF\0';
+const EXIF_ID = 'Exif\0\0';
+const XMP_ID = 'http://ns.adobe.com/xap/1.0/\0';
+
+/** Walks the APPn segments after SOI, dropping the JFIF, EXIF and XMP ones this module rewrites. */
+function parseJpegHeader(bytes: Uint8Array, complete: boolean): ParsedHeader | null | 'invalid' {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return 'invalid';
+  const kept: Uint8Array[] = [];
+  let i = 2;
+  for (;;) {
+    if (i + 4 > bytes.length) return complete ? 'invalid' : null;
+    if (bytes[i] !== 0xff) return 'invalid';
+    const marker = bytes[i + 1];
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    if (!isApp && marker !== 0xfe) return { kept, end: i };
+    const end = i + 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+    if (end > bytes.length) return complete ? 'invalid' : null;
+    const payload = bytes.subarray(i + 4, end);
+    const replaced =
+      (marker === 0xe0 && startsWith(payload, JFIF_ID)) ||
+      (marker === 0xe1 && (startsWith(payload, EXIF_ID) || startsWith(payload, XMP_ID)));
+    if (!replaced) kept.push(bytes.subarray(i, end));
+    i = end;
+  }
+}
+
+function jpegHeader(kept: Uint8Array[], meta: ImageMetadata, padding: number): Uint8Array {
+  const dpi = Math.max(1, Math.min(65535, Math.round(meta.dpi)));
+  const jfif = new Uint8Array([
+    ...asciiBytes(JFIF_ID),
+    1, 2, // version 1.02
+    1, // density in dots per inch
+    dpi >> 8, dpi & 255,
+    dpi >> 8, dpi & 255,
+    0, 0, // no thumbnail
+  ]);
+  return concatBytes([
+    new Uint8Array([0xff, 0xd8]),
+    jpegSegment(0xe0, jfif),
+    jpegSegment(0xe1, concatBytes([asciiBytes(EXIF_ID), exifBlock(meta)])),
+    jpegSegment(0xe1, concatBytes([asciiBytes(XMP_ID), xmpPacket(meta, padding)])),
+    ...kept,
+  ]);
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2;
+  return concatBytes([new Uint8Array([0xff, marker, length >> 8, length & 255]), payload]);
+}
+
+// ── EXIF ──
+
+const EXIF_ASCII = 2;
+const EXIF_SHORT = 3;
+const EXIF_LONG = 4;
+const EXIF_RATIONAL = 5;
+const EXIF_UNDEFINED = 7;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  /** Encoded value, little-endian */
+  data: Uint8Array;
+  count: number;
+}
+
+function asciiEntry(tag: number, value: string): IfdEntry {
+  const data = asciiBytes(`${value}\0`);
+  return { tag, type: EXIF_ASCII, data, count: data.length };
+}
+
+function numberEntry(tag: number, type: number, values: number[]): IfdEntry {
+  const size = type === EXIF_SHORT ? 2 : 4;
+  const data = new Uint8Array(values.length * size);
+  const view = new DataView(data.buffer);
+  values.forEach((v, i) => (size === 2 ? view.setUint16(i * 2, v, true) : view.setUint32(i * 4, v, true)));
+  return { tag, type, data, count: type === EXIF_RATIONAL ? values.length / 2 : values.length };
+}
+
+/** Bytes an IFD takes including values stored outside its entries */
+function ifdSize(entries: IfdEntry[]): number {
+  const external = entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length & 1) : 0), 0);
+  return 2 + entries.length * 12 + 4 + external;
+}
+
+function writeIfd(out: Uint8Array, offset: number, entries: IfdEntry[]): void {
+  const view = new DataView(out.buffer, out.byteOffset);
+  entries.sort((a, b) => a.tag - b.tag);
+  view.setUint16(offset, entries.length, true);
+  let external = offset + 2 + entries.length * 12 + 4;
+  entries.forEach((e, i) => {
+    const at = offset + 2 + i * 12;
+    view.setUint16(at, e.tag, true);
+    view.setUint16(at + 2, e.type, true);
+    view.setUint32(at + 4, e.count, true);
+    if (e.data.length <= 4) {
+      out.set(e.data, at + 8);
+    } else {
+      view.setUint32(at + 8, external, true);
+      out.set(e.data, external);
+      external += e.data.length + (e.data.length & 1);
+    }
+  });
+  view.setUint32(offset + 2 + entries.length * 12, 0, true);
+}
+
+/** Little-endian TIFF block with resolution, software, dates and an ASCII title */
+function exifBlock(meta: ImageMetadata): Uint8Array {
+  const dpi = Math.max(1, Math.round(meta.dpi));
+  const date = exifDate(meta.capturedAt);
+  const ifd0: IfdEntry[] = [
+    numberEntry(0x011a, EXIF_RATIONAL, [dpi, 1]),
+    numberEntry(0x011b, EXIF_RATIONAL, [dpi, 1]),
+    numberEntry(0x0128, EXIF_SHORT, [2]), // inches
+    asciiEntry(0x0131, meta.software),
+    asciiEntry(0x0132, date),
+  ];
+  // ImageDescription is ASCII only; other titles are kept in XMP
+  if (meta.title && /^[\x20-\x7e]*$/.test(meta.title)) ifd0.push(asciiEntry(0x010e, meta.title));
+  const exifIfd: IfdEntry[] = [
+    { tag: 0x9000, type: EXIF_UNDEFINED, data: asciiBytes('0232'), count: 4 },
+    asciiEntry(0x9003, date),
+    asciiEntry(0x9004, date),
+    asciiEntry(0x9011, timezoneOffset(meta.capturedAt)),
+  ];
+  ifd0.push(numberEntry(0x8769, EXIF_LONG, [0]));
+
+  const exifOffset = 8 + ifdSize(ifd0);
+  ifd0[ifd0.length - 1] = numberEntry(0x8769, EXIF_LONG, [exifOffset]);
+  const out = new Uint8Array(exifOffset + ifdSize(exifIfd));
+  out.set([0x49, 0x49, 42, 0, 8, 0, 0, 0]);
+  writeIfd(out, 8, ifd0);
+  writeIfd(out, exifOffset, exifIfd);
+  return out;
+}
+
+// ── PNG ──
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const REPLACED_TEXT_KEYWORDS = ['Software', 'Creation Time', 'Title', XMP_KEYWORD];
+
+/** Walks the chunks before the first IDAT, dropping the ones this module rewrites. */
+function parsePngHeader(bytes: Uint8Array, complete: boolean): ParsedHeader | null | 'invalid' {
+  if (!startsWith(bytes, PNG_SIGNATURE)) return 'invalid';
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const kept: Uint8Array[] = [];
+  let i = PNG_SIGNATURE.length;
+  for (;;) {
+    if (i + 8 > bytes.length) return complete ? 'invalid' : null;
+    const type = String.fromCharCode(bytes[i + 4], bytes[i + 5], bytes[i + 6], bytes[i + 7]);
+    if (type === 'IDAT') return kept.length > 0 ? { kept, end: i } : 'invalid';
+    const end = i + 12 + view.getUint32(i);
+    if (end > bytes.length) return complete ? 'invalid' : null;
+    const data = bytes.subarray(i + 8, end - 4);
+    const isText = type === 'tEXt' || type === 'iTXt' || type === 'zTXt';
+    const replaced =
+      type === 'pHYs' || type === 'eXIf' ||
+      (isText && REPLACED_TEXT_KEYWORDS.some((k) => startsWith(data, `${k}\0`)));
+    if (!replaced) kept.push(bytes.subarray(i, end));
+    i = end;
+  }
+}
+
+function pngHeader(kept: Uint8Array[], meta: ImageMetadata, padding: number): Uint8Array {
+  const ppm = Math.round(Math.max(1, meta.dpi) / 0.0254);
+  const phys = new Uint8Array(9);
+  const view = new DataView(phys.buffer);
+  view.setUint32(0, ppm);
+  view.setUint32(4, ppm);
+  phys[8] = 1; // metres
+  const chunks = [
+    ...kept,
+    pngChunk('pHYs', phys),
+    pngChunk('tEXt', asciiBytes(`Software\0${meta.software}`)),
+    pngChunk('tEXt', asciiBytes(`Creation Time\0${new Date(meta.capturedAt).toUTCString()}`)),
+  ];
+  if (meta.title) chunks.push(pngChunk('iTXt', concatBytes([asciiBytes('Title\0\0\0\0\0'), utf8Bytes(meta.title)])));
+  chunks.push(pngChunk('iTXt', concatBytes([asciiBytes(`${XMP_KEYWORD}\0\0\0\0\0`), xmpPacket(meta, padding)])));
+  return concatBytes([PNG_SIGNATURE, ...chunks]);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(asciiBytes(type), 4);
+  out.set(data, 8);
+  view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+  return out;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 255] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ── XMP ──
+
+function xmpPacket(meta: ImageMetadata, padding: number): Uint8Array {
+  const dpi = `${Math.max(1, Math.round(meta.dpi))}/1`;
+  const created = isoDate(meta.capturedAt);
+  const title = meta.title
+    ? `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(meta.title)}</rdf:li></rdf:Alt></dc:title>`
+    : '';
+  const xml =
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about=""' +
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"' +
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"' +
+    ' xmlns:tiff="http://ns.adobe.com/tiff/1.0/"' +
+    ' xmlns:exif="http://ns.adobe.com/exif/1.0/"' +
+    ` xmp:CreatorTool="${escapeXml(meta.software)}"` +
+    ` xmp:CreateDate="${created}"` +
+    ` xmp:MetadataDate="${isoDate(Date.now())}"` +
+    ` exif:DateTimeOriginal="${created}"` +
+    ` tiff:XResolution="${dpi}" tiff:YResolution="${dpi}" tiff:ResolutionUnit="2">` +
+    title +
+    '</rdf:Description></rdf:RDF></x:xmpmeta>\n' +
+    ' '.repeat(padding) +
+    '<?xpacket end="w"?>';
+  return utf8Bytes(xml);
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// ── Dates and bytes ──
+
+function pad2(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+/** `+HH:MM` offset of local time at `ms` */
+function timezoneOffset(ms: number): string {
+  const offset = -new Date(ms).getTimezoneOffset();
+  const abs = Math.abs(offset);
+  return `${offset < 0 ? '-' : '+'}${pad2(Math.floor(abs / 60))}:${pad2(abs % 60)}`;
+}
+
+function exifDate(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getFullYear()}:${pad2(d.getMonth() + 1)}:${pad2(d.getDate())} ` +
+    `${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+}
+
+function isoDate(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}T` +
+    `${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}${timezoneOffset(ms)}`;
+}
+
+function asciiBytes(s: string): Uint8Array {
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i) & 255;
+  return out;
+}
+
+function utf8Bytes(s: string): Uint8Array {
+  const out: number[] = [];
+  for (const ch of s) {
+    const c = ch.codePointAt(0)!;
+    if (c < 0x80) out.push(c);
+    else if (c < 0x800) out.push(0xc0 | (c >> 6), 0x80 | (c & 63));
+    else if (c < 0x10000) out.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 63), 0x80 | (c & 63));
+    else out.push(0xf0 | (c >> 18), 0x80 | ((c >> 12) & 63), 0x80 | ((c >> 6) & 63), 0x80 | (c & 63));
+  }
+  return new Uint8Array(out);
+}
+
+function startsWith(bytes: Uint8Array, prefix: string | Uint8Array): boolean {
+  const p = typeof prefix === 'string' ? asciiBytes(prefix) : prefix;
+  if (bytes.length < p.length) return false;
+  for (let i = 0; i < p.length; i++) if (bytes[i] !== p[i]) return false;
+  return true;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
@@ -0,0 +1,97 @@
+import type { PaperSnap, ScannerCorners } from '@/types';
+import { PAPER_SHAPES } from '@/utils/paperSizes';
+
+// Relative difference within which 'auto' snaps to a known format
+const SNAP_TOLERANCE = 0.04;
+// Focal length of a typical phone main camera as a fraction of the long side,
+// used when the quad is too close to fronto-parallel to estimate it
+const DEFAULT_FOCAL = 0.8;
+// Vanishing points further out than 1/MIN_VANISHING long sides are treated as at infinity
+const MIN_VANISHING = 0.05;
+
+type Vec3 = [number, number, number];
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/**
+ * Width/height ratio of the rectangle a perspective quad was photographed
+ * from (Zhang & He, "Whiteboard scanning and image enhancement"). The focal
+ * length is recovered from the vanishing geometry, with the principal point at
+ * the image centre; a typical phone focal length stands in when the quad is
+ * too close to fronto-parallel for that. Returns null for degenerate quads.
+ */
+export function estimateAspectRatio(corners: ScannerCorners, width: number, height: number): number | null {
+  const cx = width / 2;
+  const cy = height / 2;
+  const point = (p: { x: number; y: number }): Vec3 => [p.x * width - cx, p.y * height - cy, 1];
+  const m1 = point(corners.tl);
+  const m2 = point(corners.tr);
+  const m3 = point(corners.bl);
+  const m4 = point(corners.br);
+
+  const c14 = cross(m1, m4);
+  const d2 = dot(cross(m2, m4), m3);
+  const d3 = dot(cross(m3, m4), m2);
+  if (Math.abs(d2) < 1e-9 || Math.abs(d3) < 1e-9) return null;
+  const k2 = dot(c14, m3) / d2;
+  const k3 = dot(c14, m2) / d3;
+  if (!(k2 > 0) || !(k3 > 0)) return null;
+  const n2: Vec3 = [k2 * m2[0] - m1[0], k2 * m2[1] - m1[1], k2 - 1];
+  const n3: Vec3 = [k3 * m3[0] - m1[0], k3 * m3[1] - m1[1], k3 - 1];
+
+  const longSide = Math.max(width, height);
+  // A vanishing point far outside the frame (opposite edges nearly parallel) leaves the focal length unobservable
+  const observable = (n: Vec3) => Math.abs(n[2]) * longSide > MIN_VANISHING * Math.hypot(n[0], n[1]);
+  let f2 = observable(n2) && observable(n3) ? -(n2[0] * n3[0] + n2[1] * n3[1]) / (n2[2] * n3[2]) : NaN;
+  if (!Number.isFinite(f2) || f2 < (0.3 * longSide) ** 2 || f2 > (5 * longSide) ** 2) {
+    f2 = (DEFAULT_FOCAL * longSide) ** 2;
+  }
+  const w2 = n2[0] * n2[0] + n2[1] * n2[1] + n2[2] * n2[2] * f2;
+  const h2 = n3[0] * n3[0] + n3[1] * n3[1] + n3[2] * n3[2] * f2;
+  if (!(w2 > 0) || !(h2 > 0)) return null;
+  return Math.sqrt(w2 / h2);
+}
+
+/**
+ * Replaces an estimated width/height ratio with a known format's, keeping the
+ * orientation. 'auto' only snaps within a few percent; receipts never change
+ * the ratio since their length varies.
+ */
+export function snapAspectRatio(ratio: number, snap: PaperSnap): number {
+  if (snap === 'off') return ratio;
+  const landscape = ratio > 1;
+  const shortOverLong = landscape ? 1 / ratio : ratio;
+  const oriented = (r: number) => (landscape ? 1 / r : r);
+  if (snap !== 'auto') {
+    const shape = PAPER_SHAPES[snap];
+    return shape.height === null ? ratio : oriented(shape.width / shape.height);
+  }
+  let best = shortOverLong;
+  let bestDiff = SNAP_TOLERANCE;
+  for (const shape of Object.values(PAPER_SHAPES)) {
+    if (shape.height === null) continue;
+    const r = shape.width / shape.height;
+    const diff = Math.abs(r - shortOverLong) / r;
+    if (diff < bestDiff) {
+      best = r;
+      bestDiff = diff;
+    }
+  }
+  return oriented(best);
+}
+
+/** Output width/height ratio for a crop, or null to keep the edge-length proportions */
+export function pageAspectRatio(
+  corners: ScannerCorners,
+  imageSize: { width: number; height: number },
+  snap: PaperSnap,
+): number | null {
+  const ratio = estimateAspectRatio(corners, imageSize.width, imageSize.height);
+  return ratio === null ? null : snapAspectRatio(ratio, snap);
+}
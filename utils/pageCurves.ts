@@ -0,0 +1,34 @@
+import type { PageCurves, ScannerCorner, ScannerCorners } from '@/types';
+
+function lerp(a: ScannerCorner, b: ScannerCorner, t: number): ScannerCorner {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+/** Straight edges with control points at 1/3 and 2/3, the starting shape when book mode is turned on. */
+export function flatCurves(corners: ScannerCorners): PageCurves {
+  return {
+    top: [lerp(corners.tl, corners.tr, 1 / 3), lerp(corners.tl, corners.tr, 2 / 3)],
+    bottom: [lerp(corners.bl, corners.br, 1 / 3), lerp(corners.bl, corners.br, 2 / 3)],
+  };
+}
+
+/**
+ * Point at `u` (0 = left corner, 1 = right corner) on the cubic through the
+ * corner, both control points and the other corner. Must match `edgePoint`
+ * in the WebView engine so the drawn curve is the one that gets dewarped.
+ */
+export function edgePoint(
+  start: ScannerCorner,
+  [c1, c2]: [ScannerCorner, ScannerCorner],
+  end: ScannerCorner,
+  u: number,
+): ScannerCorner {
+  const l0 = -4.5 * (u - 1 / 3) * (u - 2 / 3) * (u - 1);
+  const l1 = 13.5 * u * (u - 2 / 3) * (u - 1);
+  const l2 = -13.5 * u * (u - 1 / 3) * (u - 1);
+  const l3 = 4.5 * u * (u - 1 / 3) * (u - 2 / 3);
+  return {
+    x: l0 * start.x + l1 * c1.x + l2 * c2.x + l3 * end.x,
+    y: l0 * start.y + l1 * c1.y + l2 * c2.y + l3 * end.y,
+  };
+}
@@ -0,0 +1,38 @@
+import type { PaperShape } from '@/types';
+
+/** Standard paper formats used for PDF pages and physical image resolution */
+export type PaperSize = 'a4' | 'letter' | 'legal' | 'a5';
+
+// Portrait dimensions in points (1/72 inch)
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 595, height: 842 },
+  letter: { width: 612, height: 792 },
+  legal: { width: 612, height: 1008 },
+  a5: { width: 420, height: 595 },
+};
+
+/**
+ * Resolution at which an image prints on the given paper, turned to match the
+ * image orientation. The image fits the sheet on its tighter side, so a crop
+ * of the whole page prints at true size.
+ */
+export function paperDpi(image: { width: number; height: number }, paper: PaperSize): number {
+  const size = PAPER_SIZES[paper];
+  const landscape = image.width > image.height;
+  const widthIn = (landscape ? size.height : size.width) / 72;
+  const heightIn = (landscape ? size.width : size.height) / 72;
+  return Math.round(Math.max(image.width / widthIn, image.height / heightIn));
+}
+
+/**
+ * Portrait proportions of the formats a page can snap to, in millimetres.
+ * Receipts have a standard width but any length, so they have no height.
+ */
+export const PAPER_SHAPES: Record<PaperShape, { width: number; height: number | null }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+  receipt: { width: 80, height: null },
+  idCard: { width: 53.98, height: 85.6 },
+  passport: { width: 88, height: 125 },
+  businessCard: { width: 55, height: 85 },
+};
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pdfOutline, type PdfImage } from './pdfLayout';
+import type { PdfBookmark } from './pdfWriter';
+
+function image(section?: string, firstLine?: string): PdfImage {
+  const box = { x: 0, y: 0, width: 1, height: 0.1 };
+  return {
+    base64: '',
+    width: 100,
+    height: 140,
+    section,
+    text: firstLine === undefined
+      ? undefined
+      : { language: 'en', text: firstLine, lines: [{ text: firstLine, box, words: [] }] },
+  };
+}
+
+// Bookmark titles as nested arrays, which read better in failures than the objects
+function titles(bookmarks: PdfBookmark[] = []): (string | [string, unknown[]])[] {
+  return bookmarks.map((b) => (b.children ? [b.title, titles(b.children)] : b.title));
+}
+
+test('documents without sections are numbered from 1', () => {
+  const outline = pdfOutline([image(undefined, 'Invoice 2041'), image(), image(' ')]);
+  assert.deepEqual(outline.pageLabels, [{ pageIndex: 0 }]);
+  assert.deepEqual(titles(outline.bookmarks), ['1. Invoice 2041', '2', '3']);
+  assert.deepEqual(outline.bookmarks!.map((b) => b.pageIndex), [0, 1, 2]);
+});
+
+test('sections restart page numbers after their title', () => {
+  const outline = pdfOutline([
+    image(),
+    image('Receipts'),
+    { receipt: image(undefined, 'Taxi') },
+    // A card sheet starts a section when either side names one
+    { cards: [image(), image(' Cards ')], shape: 'idCard' },
+  ]);
+  assert.deepEqual(outline.pageLabels, [
+    { pageIndex: 0 },
+    { pageIndex: 1, prefix: 'Receipts ' },
+    { pageIndex: 3, prefix: 'Cards ' },
+  ]);
+  assert.deepEqual(titles(outline.bookmarks), [
+    '1',
+    ['Receipts', ['1', '2. Taxi']],
+    ['Cards', ['1']],
+  ]);
+});
+
+test('a section on the first page needs no plain range before it', () => {
+  const outline = pdfOutline([image('Contracts'), image()]);
+  assert.deepEqual(outline.pageLabels, [{ pageIndex: 0, prefix: 'Contracts ' }]);
+});
+
+test('long first lines are cut short in bookmarks', () => {
+  const [bookmark] = pdfOutline([image(undefined, 'x'.repeat(80))]).bookmarks!;
+  assert.equal(bookmark.title, `1. ${'x'.repeat(59)}…`);
+});
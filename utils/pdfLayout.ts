@@ -0,0 +1,234 @@
+import { PAPER_SHAPES, PAPER_SIZES, type PaperSize } from '@/utils/paperSizes';
+import type { PdfBookmark, PdfDocument, PdfPageLabel } from '@/utils/pdfWriter';
+import type { IdShape, PageText, ScanPage, ScanResult } from '@/types';
+
+/**
+ * Page geometry and document outline of exported PDFs. Pure, so it can be
+ * tested without the file system or storage the PDF service depends on.
+ */
+
+/** Page size preset; 'fit' sizes each page to its image */
+export type PdfPageSize = PaperSize | 'fit';
+
+/** How the image is scaled into the printable area of the page */
+export type PdfScaleMode = 'fit' | 'fill' | 'actual';
+
+/** The export options that decide page geometry */
+export interface PdfLayoutOptions {
+  pageSize: PdfPageSize;
+  /** Margin on every side, in points */
+  margin: number;
+  scaleMode: PdfScaleMode;
+}
+
+/** Image box relative to the printable area, in points (may exceed it in 'fill' mode, which is clipped) */
+export interface PdfImageBox {
+  imgLeft: number;
+  imgTop: number;
+  imgWidth: number;
+  imgHeight: number;
+}
+
+/** Page geometry for one scanned image, in points */
+export interface PdfPageLayout extends PdfImageBox {
+  pageWidth: number;
+  pageHeight: number;
+}
+
+/** A page image and the text recognized on it, written as an invisible layer so the PDF is searchable */
+export type PdfImage = ScanResult & { text?: PageText; section?: string };
+
+/** Both sides of an ID card or passport page, printed at true size on one sheet */
+export interface PdfCardSheet {
+  /** Front first */
+  cards: PdfImage[];
+  shape: IdShape;
+}
+
+/** A receipt, printed at its paper width on a page as long as the receipt */
+export interface PdfReceiptPage {
+  receipt: PdfImage;
+}
+
+/** A PDF page: one scanned image, the sides of an identity document, or a receipt */
+export type PdfPageSource = PdfImage | PdfCardSheet | PdfReceiptPage;
+
+/** Page geometry for several images on one page, in points */
+export interface PdfSheetLayout {
+  pageWidth: number;
+  pageHeight: number;
+  boxes: PdfImageBox[];
+}
+
+const MM_TO_PT = 72 / 25.4;
+
+/**
+ * Computes page size, orientation and image placement for one image.
+ * Orientation follows the image aspect ratio; the image never extends
+ * beyond the printable area. `dpi` sizes 'actual' images and 'fit' pages.
+ */
+export function layoutPdfPage(
+  image: { width: number; height: number },
+  options: PdfLayoutOptions,
+  dpi: number,
+): PdfPageLayout {
+  const margin = Math.max(0, options.margin);
+  const naturalW = (image.width * 72) / dpi;
+  const naturalH = (image.height * 72) / dpi;
+
+  if (options.pageSize === 'fit') {
+    return {
+      pageWidth: naturalW + margin * 2,
+      pageHeight: naturalH + margin * 2,
+      imgLeft: 0,
+      imgTop: 0,
+      imgWidth: naturalW,
+      imgHeight: naturalH,
+    };
+  }
+
+  const paper = PAPER_SIZES[options.pageSize];
+  const landscape = image.width > image.height;
+  const pageWidth = landscape ? paper.height : paper.width;
+  const pageHeight = landscape ? paper.width : paper.height;
+  const boxW = Math.max(1, pageWidth - margin * 2);
+  const boxH = Math.max(1, pageHeight - margin * 2);
+
+  const fitScale = Math.min(boxW / naturalW, boxH / naturalH);
+  let scale: number;
+  if (options.scaleMode === 'fill') {
+    scale = Math.max(boxW / naturalW, boxH / naturalH);
+  } else if (options.scaleMode === 'actual') {
+    scale = Math.min(1, fitScale);
+  } else {
+    scale = fitScale;
+  }
+
+  const imgWidth = naturalW * scale;
+  const imgHeight = naturalH * scale;
+  return {
+    pageWidth,
+    pageHeight,
+    imgLeft: (boxW - imgWidth) / 2,
+    // Fitted images sit at the top like a printed document; filled images are centred before clipping
+    imgTop: options.scaleMode === 'fill' ? (boxH - imgHeight) / 2 : 0,
+    imgWidth,
+    imgHeight,
+  };
+}
+
+/**
+ * Lays out the sides of an identity document at their physical size, each
+ * centred in an equal share of the printable height like a photocopy. 'fit'
+ * pages use A4.
+ */
+export function layoutCardSheet(sheet: PdfCardSheet, options: PdfLayoutOptions): PdfSheetLayout {
+  const paper = PAPER_SIZES[options.pageSize === 'fit' ? 'a4' : options.pageSize];
+  const margin = Math.max(0, options.margin);
+  const boxW = Math.max(1, paper.width - margin * 2);
+  const boxH = Math.max(1, paper.height - margin * 2);
+  const rowH = boxH / sheet.cards.length;
+  const shape = PAPER_SHAPES[sheet.shape];
+  const boxes = sheet.cards.map((card, i) => {
+    const landscape = card.width > card.height;
+    // Width from the physical format, height from the image so a slightly off crop is not stretched
+    let imgWidth = (landscape ? shape.height ?? shape.width : shape.width) * MM_TO_PT;
+    let imgHeight = (imgWidth * card.height) / card.width;
+    const fit = Math.min(1, boxW / imgWidth, rowH / imgHeight);
+    imgWidth *= fit;
+    imgHeight *= fit;
+    return { imgLeft: (boxW - imgWidth) / 2, imgTop: rowH * i + (rowH - imgHeight) / 2, imgWidth, imgHeight };
+  });
+  return { pageWidth: paper.width, pageHeight: paper.height, boxes };
+}
+
+/**
+ * Lays out a receipt at the standard receipt width, on a page cut to its
+ * length whatever the page size preset. The short side of the image is the
+ * width, so a receipt rotated in the editor still prints at true size.
+ */
+export function layoutReceiptPage(image: { width: number; height: number }, options: PdfLayoutOptions): PdfPageLayout {
+  const margin = Math.max(0, options.margin);
+  const scale = (PAPER_SHAPES.receipt.width * MM_TO_PT) / Math.min(image.width, image.height);
+  const imgWidth = image.width * scale;
+  const imgHeight = image.height * scale;
+  return {
+    pageWidth: imgWidth + margin * 2,
+    pageHeight: imgHeight + margin * 2,
+    imgLeft: 0,
+    imgTop: 0,
+    imgWidth,
+    imgHeight,
+  };
+}
+
+/**
+ * PDF pages for a session: ID fronts are paired with the back that follows
+ * them on one sheet, receipts get pages of their own length, and every other
+ * page stands alone.
+ */
+export function pdfPageSources(pages: ScanPage[]): PdfPageSource[] {
+  const sources: PdfPageSource[] = [];
+  const image = (page: ScanPage): PdfImage => ({ ...page.result, text: page.text, section: page.section });
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i];
+    if (page.processOptions.paperSnap === 'receipt') {
+      sources.push({ receipt: image(page) });
+      continue;
+    }
+    if (!page.idSide) {
+      sources.push(image(page));
+      continue;
+    }
+    const snap = page.processOptions.paperSnap;
+    const shape: IdShape = snap === 'passport' ? 'passport' : 'idCard';
+    const next = pages[i + 1];
+    if (page.idSide === 'front' && next?.idSide === 'back') {
+      sources.push({ cards: [image(page), image(next)], shape });
+      i++;
+    } else {
+      sources.push({ cards: [image(page)], shape });
+    }
+  }
+  return sources;
+}
+
+/** Images of a page source, in the order they are placed */
+export function sourceImages(page: PdfPageSource): PdfImage[] {
+  if ('cards' in page) return page.cards;
+  return 'receipt' in page ? [page.receipt] : [page];
+}
+
+// Longest page text shown in a bookmark
+const BOOKMARK_TEXT_LENGTH = 60;
+
+/**
+ * Bookmarks and page labels for a document. Every page gets a bookmark with
+ * its number and first line of text. A page with a section title starts a
+ * section: its bookmark holds those of the section's pages, and their labels
+ * restart at 1 after the section title. Pages before the first section, or
+ * in a document without sections, are labelled with plain numbers.
+ */
+export function pdfOutline(pages: PdfPageSource[]): Pick<PdfDocument, 'bookmarks' | 'pageLabels'> {
+  const bookmarks: PdfBookmark[] = [];
+  const pageLabels: PdfPageLabel[] = [];
+  let section: PdfBookmark | null = null;
+  let number = 1;
+  pages.forEach((page, pageIndex) => {
+    const images = sourceImages(page);
+    const title = images.map((image) => image.section?.trim()).find(Boolean);
+    if (title) {
+      section = { title, pageIndex, children: [] };
+      bookmarks.push(section);
+      pageLabels.push({ pageIndex, prefix: `${title} ` });
+      number = 1;
+    }
+    let line = images.map((image) => image.text?.lines[0]?.text.trim()).find(Boolean);
+    if (line && line.length > BOOKMARK_TEXT_LENGTH) line = `${line.slice(0, BOOKMARK_TEXT_LENGTH - 1)}…`;
+    const bookmark = { title: line ? `${number}. ${line}` : String(number), pageIndex };
+    (section ? section.children! : bookmarks).push(bookmark);
+    number++;
+  });
+  if (pageLabels[0]?.pageIndex !== 0) pageLabels.unshift({ pageIndex: 0 });
+  return { bookmarks, pageLabels };
+}
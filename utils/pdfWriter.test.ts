@@ -0,0 +1,177 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPdfWriter } from './pdfWriter';
+import type { PageText, TextLine } from '@/types';
+
+// Smallest header the writer reads: SOI, a baseline frame of 40×30 with three
+// components, then EOI. The writer copies the bytes, so no scan data is needed.
+const JPEG = new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x1e, 0x00, 0x28, 0x03,
+  0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+  0xff, 0xd9,
+]);
+
+function writePdf(build: (writer: ReturnType<typeof createPdfWriter>) => number) {
+  const chunks: Uint8Array[] = [];
+  const size = build(createPdfWriter((chunk) => chunks.push(chunk.slice())));
+  const bytes = Buffer.concat(chunks);
+  assert.equal(bytes.length, size);
+  // latin1 keeps one character per byte, so string offsets are file offsets
+  return bytes.toString('latin1');
+}
+
+function page() {
+  return { width: 200, height: 100, images: [{ x: 10, y: 10, width: 80, height: 60, jpeg: JPEG }] };
+}
+
+function line(text: string, box: TextLine['box'], words: string[]): TextLine {
+  // Words share the line box split evenly, which is all the layer needs
+  const width = box.width / words.length;
+  return {
+    text,
+    box,
+    words: words.map((word, i) => ({ text: word, box: { ...box, x: box.x + i * width, width } })),
+  };
+}
+
+function textPage(lines: TextLine[]) {
+  const text: PageText = { language: 'en', text: lines.map((l) => l.text).join('\n'), lines };
+  return { ...page(), images: [{ ...page().images[0], text }] };
+}
+
+// Data of the first stream whose dictionary, before /Length, matches `dict`
+function stream(pdf: string, dict: string): string {
+  const match = new RegExp(`<< ${dict} /Length (\\d+) >>\nstream\n`).exec(pdf);
+  assert.ok(match, `no stream matching ${dict}`);
+  const start = match.index + match[0].length;
+  return pdf.slice(start, start + Number(match[1]));
+}
+
+function objectBody(pdf: string, id: number): string {
+  const start = pdf.indexOf(`\n${id} 0 obj\n`) + 1;
+  assert.ok(start > 0, `object ${id} missing`);
+  return pdf.slice(start, pdf.indexOf('endobj', start));
+}
+
+test('xref offsets point at their objects', () => {
+  const pdf = writePdf((w) => {
+    w.addPage(page());
+    w.addPage(page());
+    return w.finish();
+  });
+  const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)![1]);
+  assert.ok(pdf.startsWith('xref\n', startxref));
+  const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(pdf.slice(startxref))!;
+  assert.equal(first, '0');
+  const entries = pdf.slice(startxref).split('\n').slice(2, 2 + Number(count));
+  assert.equal(entries[0], '0000000000 65535 f ');
+  for (let id = 1; id < entries.length; id++) {
+    const offset = Number(entries[id].slice(0, 10));
+    assert.ok(pdf.startsWith(`${id} 0 obj\n`, offset), `object ${id} not at ${offset}`);
+  }
+  assert.match(pdf, new RegExp(`/Size ${count} `));
+});
+
+test('DCTDecode streams hold the JPEG as is', () => {
+  const pdf = writePdf((w) => {
+    w.addPage(page());
+    return w.finish();
+  });
+  const image = /<< ([^>]*\/Filter \/DCTDecode[^>]*) \/Length (\d+) >>\nstream\n/.exec(pdf)!;
+  assert.ok(image, 'no DCTDecode image');
+  assert.match(image[1], /\/Width 40 \/Height 30/);
+  assert.equal(Number(image[2]), JPEG.length);
+  const data = pdf.slice(image.index + image[0].length, image.index + image[0].length + JPEG.length);
+  assert.deepEqual(Buffer.from(data, 'latin1'), Buffer.from(JPEG));
+  assert.ok(pdf.startsWith('\nendstream', image.index + image[0].length + JPEG.length));
+});
+
+test('bookmarks and page labels reach the catalog', () => {
+  const pdf = writePdf((w) => {
+    w.addPage(page());
+    w.addPage(page());
+    w.addPage(page());
+    return w.finish({
+      bookmarks: [{ title: 'Receipts', pageIndex: 1, children: [{ title: 'Taxi', pageIndex: 2 }] }],
+      pageLabels: [{ pageIndex: 0 }, { pageIndex: 1, prefix: 'Receipts ' }],
+    });
+  });
+  const catalog = objectBody(pdf, 1);
+  const outlinesId = Number(/\/Outlines (\d+) 0 R/.exec(catalog)![1]);
+  assert.match(catalog, /\/PageMode \/UseOutlines/);
+  assert.match(objectBody(pdf, outlinesId), /\/Type \/Outlines .* \/Count 1 >>/);
+  const nums = /\/PageLabels << \/Nums \[(.*?)\] >>/.exec(catalog)![1];
+  assert.match(nums, /^0 << \/S \/D >> 1 << \/S \/D \/P <[0-9A-F]+> >>$/);
+});
+
+test('text layer runs are invisible, stretched to their boxes and flipped to PDF space', () => {
+  const pdf = writePdf((w) => {
+    w.addPage(textPage([line('Hello', { x: 0.25, y: 0.5, width: 0.5, height: 0.1 }, ['Hello'])]));
+    return w.finish();
+  });
+  // Page contents come before the ToUnicode map, the other stream without entries of its own
+  const content = stream(pdf, '');
+  assert.match(content, /\nBT 3 Tr\n/);
+  // 6pt high, 40pt wide at x 30; five half-em glyphs need 266.667% to fill the box.
+  // The box bottom is 46pt from the top, the baseline a descent (1.2pt) above it.
+  assert.match(content, /\/F0 6 Tf 266\.667 Tz 1 0 0 1 30 55\.2 Tm <00480065006C006C006F0020> Tj\nET\n/);
+  assert.match(pdf, /\/Resources << \/XObject << \/Im0 \d+ 0 R >> \/Font << \/F0 \d+ 0 R >> >>/);
+});
+
+test('right-to-left words are shown in visual order', () => {
+  const pdf = writePdf((w) => {
+    w.addPage(textPage([line('سلام عليكم', { x: 0, y: 0, width: 1, height: 0.1 }, ['سلام', 'عليكم'])]));
+    return w.finish();
+  });
+  const runs = [...stream(pdf, '').matchAll(/<([0-9A-F]+)> Tj/g)].map((m) => m[1]);
+  // Each word is reversed and keeps its trailing separator; words stay in reading order
+  assert.deepEqual(runs, ['06450627064406330020', '06450643064A064406390020']);
+});
+
+test('characters past the BMP get surrogate codes mapped back to their pairs', () => {
+  const pdf = writePdf((w) => {
+    w.addPage(textPage([line('Hi 😀', { x: 0, y: 0, width: 1, height: 0.1 }, ['Hi', '😀'])]));
+    w.addPage(textPage([line('🍣😀', { x: 0, y: 0, width: 1, height: 0.1 }, ['🍣😀'])]));
+    return w.finish();
+  });
+  const runs = [...pdf.matchAll(/<([0-9A-F]+)> Tj/g)].map((m) => m[1]);
+  // The same character keeps its code across pages
+  assert.deepEqual(runs, ['004800690020', 'D8000020', 'D801D8000020']);
+  const cmap = pdf.slice(pdf.indexOf('/CIDInit'), pdf.indexOf('endcmap'));
+  assert.match(cmap, /2 beginbfchar\n<D800> <D83DDE00>\n<D801> <D83CDF63>\nendbfchar/);
+  // Identity ranges cover the BMP but leave the surrogate codes to bfchar
+  assert.match(cmap, /<0000> <00FF> <0000>/);
+  assert.doesNotMatch(cmap, /<D800> <D8FF>/);
+});
+
+test('the embedded font is a valid glyphless TrueType', () => {
+  const pdf = writePdf((w) => {
+    w.addPage(textPage([line('Hello', { x: 0, y: 0, width: 1, height: 0.1 }, ['Hello'])]));
+    return w.finish();
+  });
+  const font = Buffer.from(stream(pdf, '/Length1 \\d+'), 'latin1');
+  const sum = (bytes: Buffer) => {
+    const padded = Buffer.alloc((bytes.length + 3) & ~3);
+    bytes.copy(padded);
+    let total = 0;
+    for (let i = 0; i < padded.length; i += 4) total = (total + padded.readUInt32BE(i)) >>> 0;
+    return total;
+  };
+  assert.equal(font.readUInt32BE(0), 0x00010000);
+  const count = font.readUInt16BE(4);
+  const tags: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = 12 + i * 16;
+    const tag = font.toString('latin1', entry, entry + 4);
+    const offset = font.readUInt32BE(entry + 8);
+    const length = font.readUInt32BE(entry + 12);
+    tags.push(tag);
+    const table = Buffer.from(font.subarray(offset, offset + length));
+    // head's checksum is taken with checkSumAdjustment zeroed
+    if (tag === 'head') table.writeUInt32BE(0, 8);
+    assert.equal(font.readUInt32BE(entry + 4), sum(table), `${tag} checksum`);
+  }
+  assert.deepEqual(tags, ['glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp']);
+  assert.equal(sum(font), 0xb1b0afba);
+});
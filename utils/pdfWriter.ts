@@ -0,0 +1,550 @@
+import type { PageText, TextBox } from '@/types';
+
+/**
+ * Minimal PDF 1.4 writer for scanned pages. JPEG images are embedded as they
+ * are (DCTDecode), so nothing is re-encoded, and each page is handed to the
+ * sink as soon as it is added: memory holds one page, whatever the page count.
+ * Has no platform dependencies, so it runs as well in Node as in the app.
+ */
+
+/** Receives the file bytes in order */
+export type PdfSink = (chunk: Uint8Array) => void;
+
+/** Rectangle in points from the top-left corner of the page */
+export interface PdfRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A JPEG placed on a page, with the text recognized on it */
+export interface PdfPlacedImage extends PdfRect {
+  jpeg: Uint8Array;
+  /** Drawn invisibly over the image so the page can be searched and copied from */
+  text?: PageText;
+}
+
+export interface PdfPageSpec {
+  width: number;
+  height: number;
+  /** Area images are clipped to; the whole page when omitted */
+  clip?: PdfRect;
+  images: PdfPlacedImage[];
+}
+
+/** Document information dictionary; empty entries are left out */
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  /** Application the document was made with, also recorded as the producer */
+  creator?: string;
+  /** Unix epoch milliseconds */
+  creationDate?: number;
+}
+
+/** Outline entry opening the top of a page; children start collapsed */
+export interface PdfBookmark {
+  title: string;
+  pageIndex: number;
+  children?: PdfBookmark[];
+}
+
+/**
+ * Decimal page numbering from `pageIndex` until the next range, shown by
+ * viewers in place of the physical page number.
+ */
+export interface PdfPageLabel {
+  pageIndex: number;
+  prefix?: string;
+  /** First number of the range; 1 when omitted */
+  start?: number;
+}
+
+/** Document-level structure written when the file is finished */
+export interface PdfDocument {
+  info?: PdfInfo;
+  bookmarks?: PdfBookmark[];
+  /** Ranges in page order; pages before the first range are numbered from 1 */
+  pageLabels?: PdfPageLabel[];
+}
+
+export interface PdfWriter {
+  addPage(page: PdfPageSpec): void;
+  /**
+   * Writes the outline, page labels, document information, page tree,
+   * cross-reference table and trailer. Returns the file size in bytes.
+   */
+  finish(document?: PdfDocument): number;
+}
+
+const CATALOG_ID = 1;
+const PAGES_ID = 2;
+
+// ── Serialization ──
+
+function ascii(s: string): Uint8Array {
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i) & 0xff;
+  return out;
+}
+
+// PDF has no exponent notation, so numbers are rounded to plain decimals
+function num(n: number): string {
+  return String(Math.round(n * 1000) / 1000);
+}
+
+// Text strings as UTF-16BE with a byte order mark, which any script survives
+function textString(s: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < s.length; i++) hex += s.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex}>`;
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// D:YYYYMMDDHHmmSS with the local UTC offset as +HH'mm'
+function pdfDate(ms: number): string {
+  const d = new Date(ms);
+  const offset = -d.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const abs = Math.abs(offset);
+  return `(D:${d.getFullYear()}${pad2(d.getMonth() + 1)}${pad2(d.getDate())}` +
+    `${pad2(d.getHours())}${pad2(d.getMinutes())}${pad2(d.getSeconds())}` +
+    `${sign}${pad2(Math.floor(abs / 60))}'${pad2(abs % 60)}')`;
+}
+
+interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+// Frame size and component count from the first SOFn marker
+function readJpegInfo(jpeg: Uint8Array): JpegInfo {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) throw new Error('PDF images must be JPEG');
+  let offset = 2;
+  while (offset + 9 < jpeg.length) {
+    if (jpeg[offset] !== 0xff) throw new Error('Malformed JPEG');
+    const marker = jpeg[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    // SOF0-SOF15, leaving out DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (jpeg[offset + 5] << 8) | jpeg[offset + 6],
+        width: (jpeg[offset + 7] << 8) | jpeg[offset + 8],
+        components: jpeg[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('JPEG has no frame header');
+}
+
+// ── Text layer font ──
+
+// The text layer uses a font without glyphs, the approach of Tesseract's PDF
+// renderer: text is never painted (render mode 3), it only needs widths for
+// selection and a ToUnicode map for extraction. Characters are encoded as
+// their UTF-16 code units through Identity-H, which covers every app language.
+// Characters past the BMP (emoji, rare CJK) take the codes of the surrogate
+// range, which no single character uses, and are mapped one by one.
+
+const UNITS_PER_EM = 1000;
+const FONT_ASCENT = 800;
+const FONT_DESCENT = -200;
+const NARROW_WIDTH = 500;
+const WIDE_WIDTH = 1000;
+// CJK, Hangul and full-width forms, given a full em
+const WIDE_RANGES: [number, number][] = [
+  [0x1100, 0x11ff],
+  [0x2e80, 0xa4cf],
+  [0xac00, 0xd7af],
+  [0xf900, 0xfaff],
+  [0xfe30, 0xfe4f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+];
+
+// Hebrew, Arabic, Syriac, Thaana, NKo and the Hebrew and Arabic presentation forms
+const RTL_RANGES: [number, number][] = [
+  [0x0590, 0x08ff],
+  [0xfb1d, 0xfdff],
+  [0xfe70, 0xfeff],
+];
+
+function isRtl(code: number): boolean {
+  return RTL_RANGES.some(([from, to]) => code >= from && code <= to);
+}
+
+function charWidth(code: number): number {
+  return WIDE_RANGES.some(([from, to]) => code >= from && code <= to) ? WIDE_WIDTH : NARROW_WIDTH;
+}
+
+const SURROGATE_FIRST = 0xd800;
+const SURROGATE_LAST = 0xdfff;
+
+function hex4(code: number): string {
+  return code.toString(16).padStart(4, '0').toUpperCase();
+}
+
+/**
+ * Identity-H codes of `text`. BMP characters are their own code; others get the
+ * next free surrogate code from `extra`, and are left out once those run out.
+ */
+function textCodes(text: string, extra: Map<string, number>): number[] {
+  const codes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < SURROGATE_FIRST || (code > SURROGATE_LAST && code <= 0xffff)) {
+      codes.push(code);
+      continue;
+    }
+    if (code <= 0xffff) continue;
+    let mapped = extra.get(char);
+    if (mapped === undefined && extra.size <= SURROGATE_LAST - SURROGATE_FIRST) {
+      mapped = SURROGATE_FIRST + extra.size;
+      extra.set(char, mapped);
+    }
+    if (mapped !== undefined) codes.push(mapped);
+  }
+  return codes;
+}
+
+function checksum(bytes: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < bytes.length; i += 4) {
+    sum = (sum + (((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0)) >>> 0;
+  }
+  return sum;
+}
+
+function fontTable(values: [number, 2 | 4][]): Uint8Array {
+  const out = new Uint8Array(values.reduce((n, [, size]) => n + size, 0));
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const [value, size] of values) {
+    if (size === 2) view.setUint16(offset, value & 0xffff);
+    else view.setUint32(offset, value >>> 0);
+    offset += size;
+  }
+  return out;
+}
+
+/** A TrueType font with only an empty .notdef glyph: the tables a PDF-embedded TrueType needs. */
+function glyphlessFont(): Uint8Array {
+  const tables: [string, Uint8Array][] = [
+    ['glyf', new Uint8Array(0)],
+    ['head', fontTable([
+      [0x00010000, 4], [0x00010000, 4], [0, 4], [0x5f0f3cf5, 4], [0x000b, 2], [UNITS_PER_EM, 2],
+      [0, 4], [0, 4], [0, 4], [0, 4],
+      [0, 2], [FONT_DESCENT, 2], [WIDE_WIDTH, 2], [FONT_ASCENT, 2],
+      [0, 2], [3, 2], [2, 2], [0, 2], [0, 2],
+    ])],
+    ['hhea', fontTable([
+      [0x00010000, 4], [FONT_ASCENT, 2], [FONT_DESCENT, 2], [0, 2], [NARROW_WIDTH, 2], [0, 2], [0, 2],
+      [NARROW_WIDTH, 2], [1, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 2], [1, 2],
+    ])],
+    ['hmtx', fontTable([[NARROW_WIDTH, 2], [0, 2]])],
+    ['loca', fontTable([[0, 2], [0, 2]])],
+    ['maxp', fontTable([[0x00010000, 4], [1, 2], ...Array.from({ length: 13 }, (_, i): [number, 2] => [i === 4 ? 2 : 0, 2])])],
+  ];
+  const dirSize = 12 + tables.length * 16;
+  const length = tables.reduce((n, [, data]) => n + ((data.length + 3) & ~3), dirSize);
+  const font = new Uint8Array(length);
+  const view = new DataView(font.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tables.length);
+  // searchRange, entrySelector and rangeShift for binary search over the directory
+  const power = 2 ** Math.floor(Math.log2(tables.length));
+  view.setUint16(6, power * 16);
+  view.setUint16(8, Math.log2(power));
+  view.setUint16(10, tables.length * 16 - power * 16);
+  let offset = dirSize;
+  let headOffset = 0;
+  tables.forEach(([tag, data], i) => {
+    const entry = 12 + i * 16;
+    for (let c = 0; c < 4; c++) font[entry + c] = tag.charCodeAt(c);
+    const padded = new Uint8Array((data.length + 3) & ~3);
+    padded.set(data);
+    view.setUint32(entry + 4, checksum(padded));
+    view.setUint32(entry + 8, offset);
+    view.setUint32(entry + 12, data.length);
+    font.set(data, offset);
+    if (tag === 'head') headOffset = offset;
+    offset += padded.length;
+  });
+  view.setUint32(headOffset + 8, (0xb1b0afba - checksum(font)) >>> 0);
+  return font;
+}
+
+/**
+ * Maps every 2-byte code outside the surrogate range to the same UTF-16 code
+ * unit, and the surrogate codes in `extra` to their characters' surrogate pairs.
+ * bfrange entries may only vary in their last byte; blocks hold at most 100 entries.
+ */
+function identityToUnicode(extra: Map<string, number>): string {
+  const ranges: string[] = [];
+  for (let high = 0; high < 256; high++) {
+    if (high >= 0xd8 && high <= 0xdf) continue;
+    const hex = high.toString(16).padStart(2, '0').toUpperCase();
+    ranges.push(`<${hex}00> <${hex}FF> <${hex}00>`);
+  }
+  const chars = [...extra].map(([char, code]) =>
+    `<${hex4(code)}> <${hex4(char.charCodeAt(0))}${hex4(char.charCodeAt(1))}>`);
+  const blocks: string[] = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const block = ranges.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfrange\n${block.join('\n')}\nendbfrange`);
+  }
+  for (let i = 0; i < chars.length; i += 100) {
+    const block = chars.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
+
+/**
+ * Runs of recognized text with their boxes, one per word. Words keep the
+ * separators of their line and every line ends with a space, so extracted
+ * text reads as it was printed.
+ */
+function textRuns(text: PageText): { text: string; box: TextBox }[] {
+  return text.lines.flatMap((line) => {
+    if (line.words.length === 0) return [{ text: `${line.text} `, box: line.box }];
+    const spaced = /\s/.test(line.text);
+    return line.words.map((word, i) => ({
+      text: spaced || i === line.words.length - 1 ? `${word.text} ` : word.text,
+      box: word.box,
+    }));
+  });
+}
+
+// Content stream operators drawing a text layer over an image; `pageHeight` flips to PDF's bottom-up y axis
+function textLayerOps(
+  text: PageText,
+  image: PdfRect,
+  pageHeight: number,
+  font: string,
+  extra: Map<string, number>,
+): string {
+  const ops: string[] = [];
+  for (const run of textRuns(text)) {
+    const size = run.box.height * image.height;
+    const width = run.box.width * image.width;
+    // The trailing separator hangs past the box rather than squeezing the word
+    const codes = textCodes(run.text, extra);
+    const wordCodes = run.text.endsWith(' ') ? codes.slice(0, -1) : codes;
+    const em = wordCodes.reduce((n, code) => n + charWidth(code), 0) / UNITS_PER_EM;
+    if (size <= 0 || width <= 0 || em <= 0) continue;
+    const x = image.x + run.box.x * image.width;
+    // The font box spans the descent to the ascent, so the baseline sits a descent above the bottom
+    const baseline = pageHeight - (image.y + (run.box.y + run.box.height) * image.height) - (FONT_DESCENT / UNITS_PER_EM) * size;
+    // Extractors read shown text as visual order, so right-to-left words are shown reversed
+    const shown = wordCodes.some(isRtl) ? [...wordCodes].reverse().concat(codes.slice(wordCodes.length)) : codes;
+    const hex = shown.map(hex4).join('');
+    ops.push(`/${font} ${num(size)} Tf ${num((width / (em * size)) * 100)} Tz 1 0 0 1 ${num(x)} ${num(baseline)} Tm <${hex}> Tj`);
+  }
+  return ops.length ? `BT 3 Tr\n${ops.join('\n')}\nET` : '';
+}
+
+// ── Writer ──
+
+export function createPdfWriter(sink: PdfSink): PdfWriter {
+  const offsets: number[] = [];
+  const pageIds: number[] = [];
+  let position = 0;
+  let nextId = PAGES_ID + 1;
+  let fontId = 0;
+  let toUnicodeId = 0;
+  // Surrogate codes handed out to characters past the BMP, mapped when the file is finished
+  const extraCodes = new Map<string, number>();
+  let finished = false;
+
+  const write = (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === 'string' ? ascii(chunk) : chunk;
+    sink(bytes);
+    position += bytes.length;
+  };
+  const allocate = () => nextId++;
+  const writeObject = (id: number, body: string) => {
+    offsets[id] = position;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+  const writeStream = (id: number, dict: string, data: Uint8Array | string) => {
+    const bytes = typeof data === 'string' ? ascii(data) : data;
+    offsets[id] = position;
+    write(`${id} 0 obj\n<< ${dict} /Length ${bytes.length} >>\nstream\n`);
+    write(bytes);
+    write('\nendstream\nendobj\n');
+  };
+
+  // The text font is written the first time a page carries text
+  const textFont = (): number => {
+    if (fontId) return fontId;
+    fontId = allocate();
+    const cidFontId = allocate();
+    const descriptorId = allocate();
+    const fileId = allocate();
+    toUnicodeId = allocate();
+    const widths = WIDE_RANGES.map(([from, to]) => `${from} ${to} ${WIDE_WIDTH}`).join(' ');
+    const fontFile = glyphlessFont();
+    writeObject(fontId,
+      `<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H ` +
+      `/DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`);
+    writeObject(cidFontId,
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont ` +
+      `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+      `/FontDescriptor ${descriptorId} 0 R /DW ${NARROW_WIDTH} /W [${widths}] /CIDToGIDMap /Identity >>`);
+    writeObject(descriptorId,
+      `<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 ` +
+      `/FontBBox [0 ${FONT_DESCENT} ${WIDE_WIDTH} ${FONT_ASCENT}] /ItalicAngle 0 ` +
+      `/Ascent ${FONT_ASCENT} /Descent ${FONT_DESCENT} /CapHeight ${FONT_ASCENT} /StemV 80 ` +
+      `/FontFile2 ${fileId} 0 R >>`);
+    writeStream(fileId, `/Length1 ${fontFile.length}`, fontFile);
+    return fontId;
+  };
+
+  // Writes sibling outline items under `parentId`; returns the ends of the chain and its visible count
+  const writeOutline = (items: PdfBookmark[], parentId: number): { first: number; last: number; count: number } => {
+    const ids = items.map(() => allocate());
+    items.forEach((item, i) => {
+      const pageId = pageIds[item.pageIndex];
+      if (pageId === undefined) throw new Error('Bookmark past the last page');
+      const links = [`/Parent ${parentId} 0 R`];
+      if (i > 0) links.push(`/Prev ${ids[i - 1]} 0 R`);
+      if (i < ids.length - 1) links.push(`/Next ${ids[i + 1]} 0 R`);
+      if (item.children?.length) {
+        const kids = writeOutline(item.children, ids[i]);
+        // A negative count keeps the entry collapsed
+        links.push(`/First ${kids.first} 0 R /Last ${kids.last} 0 R /Count -${kids.count}`);
+      }
+      writeObject(ids[i],
+        `<< /Title ${textString(item.title)} ${links.join(' ')} /Dest [${pageId} 0 R /XYZ null null null] >>`);
+    });
+    return { first: ids[0], last: ids[ids.length - 1], count: items.length };
+  };
+
+  write('%PDF-1.4\n');
+  // A comment with high bytes marks the file as binary for transfer tools
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  return {
+    addPage(page) {
+      if (finished) throw new Error('PDF already finished');
+      const xObjects: string[] = [];
+      const ops: string[] = ['q'];
+      if (page.clip) {
+        const c = page.clip;
+        ops.push(`${num(c.x)} ${num(page.height - c.y - c.height)} ${num(c.width)} ${num(c.height)} re W n`);
+      }
+      const textOps: string[] = [];
+      page.images.forEach((image, i) => {
+        const info = readJpegInfo(image.jpeg);
+        const id = allocate();
+        const colorSpace = info.components === 1 ? '/DeviceGray' : info.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+        // 4-component JPEGs are written inverted by Adobe encoders
+        const decode = info.components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+        writeStream(id,
+          `/Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} ` +
+          `/ColorSpace ${colorSpace} /BitsPerComponent 8${decode} /Filter /DCTDecode`,
+          image.jpeg);
+        xObjects.push(`/Im${i} ${id} 0 R`);
+        const y = page.height - image.y - image.height;
+        ops.push(`q ${num(image.width)} 0 0 ${num(image.height)} ${num(image.x)} ${num(y)} cm /Im${i} Do Q`);
+        if (image.text?.lines.length) {
+          const layer = textLayerOps(image.text, image, page.height, 'F0', extraCodes);
+          if (layer) textOps.push(layer);
+        }
+      });
+      ops.push(...textOps, 'Q');
+
+      const resources = [`/XObject << ${xObjects.join(' ')} >>`];
+      if (textOps.length) resources.push(`/Font << /F0 ${textFont()} 0 R >>`);
+      const contentId = allocate();
+      writeStream(contentId, '', ops.join('\n'));
+      const pageId = allocate();
+      writeObject(pageId,
+        `<< /Type /Page /Parent ${PAGES_ID} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << ${resources.join(' ')} >> /Contents ${contentId} 0 R >>`);
+      pageIds.push(pageId);
+    },
+
+    finish(document = {}) {
+      if (finished) throw new Error('PDF already finished');
+      if (pageIds.length === 0) throw new Error('No pages to export');
+      finished = true;
+      if (toUnicodeId) writeStream(toUnicodeId, '', identityToUnicode(extraCodes));
+      const catalog = [`/Type /Catalog /Pages ${PAGES_ID} 0 R`];
+
+      if (document.bookmarks?.length) {
+        const outlinesId = allocate();
+        const top = writeOutline(document.bookmarks, outlinesId);
+        writeObject(outlinesId, `<< /Type /Outlines /First ${top.first} 0 R /Last ${top.last} 0 R /Count ${top.count} >>`);
+        catalog.push(`/Outlines ${outlinesId} 0 R /PageMode /UseOutlines`);
+      }
+
+      if (document.pageLabels?.length) {
+        const ranges = [...document.pageLabels].sort((a, b) => a.pageIndex - b.pageIndex);
+        // The number tree must cover the first page
+        if (ranges[0].pageIndex > 0) ranges.unshift({ pageIndex: 0 });
+        const nums = ranges.map((range) => {
+          if (range.pageIndex >= pageIds.length) throw new Error('Page label past the last page');
+          const prefix = range.prefix ? ` /P ${textString(range.prefix)}` : '';
+          const start = range.start && range.start !== 1 ? ` /St ${range.start}` : '';
+          return `${range.pageIndex} << /S /D${prefix}${start} >>`;
+        });
+        catalog.push(`/PageLabels << /Nums [${nums.join(' ')}] >>`);
+      }
+
+      let infoId = 0;
+      const info = document.info ?? {};
+      const entries: string[] = [];
+      if (info.title) entries.push(`/Title ${textString(info.title)}`);
+      if (info.author) entries.push(`/Author ${textString(info.author)}`);
+      if (info.subject) entries.push(`/Subject ${textString(info.subject)}`);
+      if (info.keywords) entries.push(`/Keywords ${textString(info.keywords)}`);
+      if (info.creator) entries.push(`/Creator ${textString(info.creator)} /Producer ${textString(info.creator)}`);
+      if (info.creationDate) entries.push(`/CreationDate ${pdfDate(info.creationDate)} /ModDate ${pdfDate(info.creationDate)}`);
+      if (entries.length) {
+        infoId = allocate();
+        writeObject(infoId, `<< ${entries.join(' ')} >>`);
+      }
+      // Viewers show the title rather than the file name in their title bar
+      if (info.title) catalog.push('/ViewerPreferences << /DisplayDocTitle true >>');
+
+      writeObject(PAGES_ID, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+      writeObject(CATALOG_ID, `<< ${catalog.join(' ')} >>`);
+      const xrefOffset = position;
+      const xref = ['0000000000 65535 f \n'];
+      for (let id = 1; id < nextId; id++) xref.push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+      write(`xref\n0 ${nextId}\n${xref.join('')}`);
+      const infoRef = infoId ? ` /Info ${infoId} 0 R` : '';
+      write(`trailer\n<< /Size ${nextId} /Root ${CATALOG_ID} 0 R${infoRef} >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+      return position;
+    },
+  };
+}
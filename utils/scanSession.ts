@@ -0,0 +1,89 @@
+import type { EditParams, ProcessOptions, ScanPage } from '@/types';
+
+/**
+ * Helpers for the ordered page list of a multi-page scan session.
+ * All functions are pure and return a new array so they can be used
+ * directly with React state setters.
+ */
+
+export const DEFAULT_EDITS: EditParams = {
+  rotation: 0,
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  warmth: 0,
+  sepia: 0,
+  grayscale: 0,
+};
+
+export const DEFAULT_PROCESS_OPTIONS: ProcessOptions = {
+  removeShadows: false,
+  deskew: true,
+  binarization: 'mean',
+  sensitivity: 50,
+  despeckle: true,
+  maxOutputSize: 4000,
+  paperSnap: 'off',
+};
+
+export function hasEdits(edits: EditParams): boolean {
+  return (Object.keys(DEFAULT_EDITS) as (keyof EditParams)[]).some((k) => edits[k] !== DEFAULT_EDITS[k]);
+}
+
+export function createPageId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Replaces the page with the same id, or appends it if it is not in the session yet. */
+export function upsertPage(pages: ScanPage[], page: ScanPage): ScanPage[] {
+  const idx = pages.findIndex((p) => p.id === page.id);
+  if (idx === -1) return [...pages, page];
+  const next = pages.slice();
+  next[idx] = page;
+  return next;
+}
+
+/**
+ * Upserts the first page and inserts the others directly after it, so pages
+ * split from one capture stay together.
+ */
+export function upsertPages(pages: ScanPage[], [first, ...rest]: ScanPage[]): ScanPage[] {
+  const next = upsertPage(pages, first);
+  const idx = next.findIndex((p) => p.id === first.id);
+  next.splice(idx + 1, 0, ...rest);
+  return next;
+}
+
+/**
+ * Applies a patch to one page. Recognized text is positioned on the result
+ * image, so it is dropped when the patch moves content: a new processed
+ * image, a rotation or a change of result size.
+ */
+export function updatePage(pages: ScanPage[], id: string, patch: Partial<ScanPage>): ScanPage[] {
+  return pages.map((p) => {
+    if (p.id !== id) return p;
+    const next = { ...p, ...patch };
+    const moved = patch.processed !== undefined ||
+      next.edits.rotation !== p.edits.rotation ||
+      next.result.width !== p.result.width ||
+      next.result.height !== p.result.height;
+    if (moved && patch.text === undefined) delete next.text;
+    return next;
+  });
+}
+
+export function removePage(pages: ScanPage[], id: string): ScanPage[] {
+  return pages.filter((p) => p.id !== id);
+}
+
+/** Moves a page by `offset` positions, clamped to the bounds of the list. */
+export function movePage(pages: ScanPage[], id: string, offset: number): ScanPage[] {
+  const from = pages.findIndex((p) => p.id === id);
+  if (from === -1) return pages;
+  const to = Math.max(0, Math.min(pages.length - 1, from + offset));
+  if (to === from) return pages;
+  const next = pages.slice();
+  const [page] = next.splice(from, 1);
+  next.splice(to, 0, page);
+  return next;
+}
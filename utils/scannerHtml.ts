@@ -3,12 +3,21 @@
  * perspective correction and image enhancement entirely on the client.
  *
  * Communication protocol (postMessage JSON):
- *   RN -> WebView: { type:'process', base64, corners: {tl,tr,br,bl}, mode: 'bw'|'gray'|'color' }
- *   RN -> WebView: { type:'detect', base64 }
- *   RN -> WebView: { type:'previewFilters', base64, corners: {tl,tr,br,bl} }
- *   WebView -> RN: { type:'result', base64, width, height }
+ *   RN -> WebView: { type:'process', base64, corners: {tl,tr,br,bl}, mode: 'bw'|'gray'|'color'|'magic'|'whiteboard'|'photo', options: { removeShadows, deskew, binarization, sensitivity, despeckle, maxOutputSize },
+ *                    curves: { top: [p1,p2], bottom: [p1,p2] } | null, encoding: { format, quality }, aspectRatio: number | null }
+ *   RN -> WebView: { type:'detect', base64, receipt }
+ *   RN -> WebView: { type:'deskew', id, base64, corners }
+ *   RN -> WebView: { type:'detectOrientation', id, base64 }
+ *   RN -> WebView: { type:'detectGutter', id, base64, corners }
+ *   RN -> WebView: { type:'previewFilters', base64, corners: {tl,tr,br,bl}, options, curves }
+ *   RN -> WebView (injectJavaScript): receiveProcessChunk(...) for the upper image, holdStitchUpper(),
+ *                    receiveProcessChunk(...) for the lower image, startStitch(encoding)
+ *   WebView -> RN: { type:'result', base64, width, height, skewAngle }
  *   WebView -> RN: { type:'corners', corners: {tl,tr,br,bl} | null }
- *   WebView -> RN: { type:'filterPreviews', bw: base64, gray: base64, color: base64 }
+ *   WebView -> RN: { type:'skew', id, angle, corners: {tl,tr,br,bl} }
+ *   WebView -> RN: { type:'orientation', id, rotation: 0|90|180|270 }
+ *   WebView -> RN: { type:'gutter', id, gutter: { top, bottom } }
+ *   WebView -> RN: { type:'filterPreviews', bw, gray, color, magic, whiteboard, photo: base64 }
  *   WebView -> RN: { type:'error', message }
  */
 export function getScannerHtml(): string {
@@ -82,6 +91,11 @@ function invert3x3(m) {
   ];
 }
 
+function applyH(H, x, y) {
+  var d = H[6]*x + H[7]*y + H[8];
+  return [(H[0]*x + H[1]*y + H[2]) / d, (H[3]*x + H[4]*y + H[5]) / d];
+}
+
 function dist(p1, p2) {
   return Math.sqrt((p1[0]-p2[0])*(p1[0]-p2[0]) + (p1[1]-p2[1])*(p1[1]-p2[1]));
 }
@@ -121,17 +135,170 @@ function warp(srcData, sw, sh, H_inv, dw, dh) {
   return out;
 }
 
-// ── Adaptive threshold (integral image) ──
-function adaptiveThreshold(gray, w, h, blockSize, C) {
-  // Build integral image
+// ── Tiled warping (full-resolution sources) ──
+// Output is produced in bands of rows; each band reads only the source pixels
+// it maps from, so a full-resolution capture never sits in JS memory at once.
+var TILE_ROWS = 256;
+
+// Source pixels covering the points (plus a margin for bilinear sampling)
+function readRegion(ctx, sw, sh, pts) {
+  var minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (var i = 0; i < pts.length; i++) {
+    if (pts[i][0] < minX) minX = pts[i][0];
+    if (pts[i][0] > maxX) maxX = pts[i][0];
+    if (pts[i][1] < minY) minY = pts[i][1];
+    if (pts[i][1] > maxY) maxY = pts[i][1];
+  }
+  var x0 = Math.max(0, Math.floor(minX) - 2), y0 = Math.max(0, Math.floor(minY) - 2);
+  var x1 = Math.min(sw, Math.ceil(maxX) + 2), y1 = Math.min(sh, Math.ceil(maxY) + 2);
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { data: ctx.getImageData(x0, y0, x1 - x0, y1 - y0).data, x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+}
+
+// H_inv for a band: output rows start at y0, source pixels are relative to (ox, oy)
+function shiftHomography(H, y0, ox, oy) {
+  var m = [H[0], H[1], H[1]*y0 + H[2], H[3], H[4], H[4]*y0 + H[5], H[6], H[7], H[7]*y0 + H[8]];
+  return [
+    m[0] - ox*m[6], m[1] - ox*m[7], m[2] - ox*m[8],
+    m[3] - oy*m[6], m[4] - oy*m[7], m[5] - oy*m[8],
+    m[6], m[7], m[8]
+  ];
+}
+
+function warpTiled(srcCtx, sw, sh, H_inv, dw, dh) {
+  var out = new Uint8ClampedArray(dw * dh * 4);
+  for (var y0 = 0; y0 < dh; y0 += TILE_ROWS) {
+    var rows = Math.min(TILE_ROWS, dh - y0);
+    var region = readRegion(srcCtx, sw, sh, [
+      applyH(H_inv, 0, y0), applyH(H_inv, dw, y0),
+      applyH(H_inv, dw, y0 + rows), applyH(H_inv, 0, y0 + rows)
+    ]);
+    if (!region) continue;
+    var band = warp(region.data, region.w, region.h, shiftHomography(H_inv, y0, region.x, region.y), dw, rows);
+    out.set(band, y0 * dw * 4);
+  }
+  return out;
+}
+
+// ── Book page dewarp ──
+// Edge curves are cubics through the left corner, two control points (at
+// u = 1/3 and 2/3) and the right corner. Mirrors edgePoint in utils/pageCurves.ts.
+function edgePoint(p0, p1, p2, p3, u) {
+  var l0 = -4.5 * (u - 1/3) * (u - 2/3) * (u - 1);
+  var l1 = 13.5 * u * (u - 2/3) * (u - 1);
+  var l2 = -13.5 * u * (u - 1/3) * (u - 1);
+  var l3 = 4.5 * u * (u - 1/3) * (u - 2/3);
+  return [
+    l0*p0[0] + l1*p1[0] + l2*p2[0] + l3*p3[0],
+    l0*p0[1] + l1*p1[1] + l2*p2[1] + l3*p3[1]
+  ];
+}
+
+// n + 1 points along the edge, evenly spaced by arc length
+function arcLengthSamples(edge, n) {
+  var dense = 512;
+  var pts = [], cum = [0];
+  for (var i = 0; i <= dense; i++) {
+    pts.push(edgePoint(edge[0], edge[1], edge[2], edge[3], i / dense));
+    if (i > 0) cum.push(cum[i-1] + dist(pts[i-1], pts[i]));
+  }
+  var total = cum[dense];
+  var out = [], j = 0;
+  for (var k = 0; k <= n; k++) {
+    var target = n > 0 ? total * k / n : 0;
+    while (j < dense - 1 && cum[j+1] < target) j++;
+    var seg = cum[j+1] - cum[j];
+    var t = seg > 0 ? (target - cum[j]) / seg : 0;
+    out.push([pts[j][0] + (pts[j+1][0] - pts[j][0]) * t, pts[j][1] + (pts[j+1][1] - pts[j][1]) * t]);
+  }
+  return out;
+}
+
+function edgeLength(edge) {
+  var len = 0, prev = edge[0];
+  for (var i = 1; i <= 64; i++) {
+    var p = edgePoint(edge[0], edge[1], edge[2], edge[3], i / 64);
+    len += dist(prev, p);
+    prev = p;
+  }
+  return len;
+}
+
+// Top and bottom edges in source pixels
+function curvedEdges(corners, curves, sw, sh) {
+  function px(c) { return [c.x * sw, c.y * sh]; }
+  return {
+    top: [px(corners.tl), px(curves.top[0]), px(curves.top[1]), px(corners.tr)],
+    bottom: [px(corners.bl), px(curves.bottom[0]), px(curves.bottom[1]), px(corners.br)]
+  };
+}
+
+// Ruled-surface dewarp: output column x joins the points at the same arc-length
+// fraction on the top and bottom edges, so curved text lines come out straight
+function warpCurved(srcCtx, sw, sh, edges, dw, dh) {
+  var top = arcLengthSamples(edges.top, dw - 1);
+  var bottom = arcLengthSamples(edges.bottom, dw - 1);
+  var out = new Uint8ClampedArray(dw * dh * 4);
+  var vScale = dh > 1 ? 1 / (dh - 1) : 0;
+  for (var band = 0; band < dh; band += TILE_ROWS) {
+    var bandEnd = Math.min(dh, band + TILE_ROWS);
+    var v0 = band * vScale, v1 = (bandEnd - 1) * vScale;
+    var pts = [];
+    for (var i = 0; i < dw; i++) {
+      var dxi = bottom[i][0] - top[i][0], dyi = bottom[i][1] - top[i][1];
+      pts.push([top[i][0] + dxi*v0, top[i][1] + dyi*v0], [top[i][0] + dxi*v1, top[i][1] + dyi*v1]);
+    }
+    var region = readRegion(srcCtx, sw, sh, pts);
+    if (!region) continue;
+    var srcData = region.data, rw = region.w, rh = region.h;
+    var rw1 = rw - 1, rh1 = rh - 1;
+    for (var dx = 0; dx < dw; dx++) {
+      var tx = top[dx][0] - region.x, ty = top[dx][1] - region.y;
+      var bx = bottom[dx][0] - top[dx][0], by = bottom[dx][1] - top[dx][1];
+      for (var dy = band; dy < bandEnd; dy++) {
+        var v = dy * vScale;
+        var sx = tx + bx * v, sy = ty + by * v;
+        if (sx < 0 || sx >= rw || sy < 0 || sy >= rh) continue;
+        var x0 = sx|0, y0 = sy|0;
+        var x1 = x0 < rw1 ? x0+1 : rw1;
+        var y1 = y0 < rh1 ? y0+1 : rh1;
+        var fx = sx - x0, fy = sy - y0;
+        var w00 = (1-fx)*(1-fy), w10 = fx*(1-fy), w01 = (1-fx)*fy, w11 = fx*fy;
+        var i00 = (y0*rw+x0)*4, i10 = (y0*rw+x1)*4, i01 = (y1*rw+x0)*4, i11 = (y1*rw+x1)*4;
+        var idx = (dy*dw+dx)*4;
+        out[idx]   = srcData[i00]*w00 + srcData[i10]*w10 + srcData[i01]*w01 + srcData[i11]*w11;
+        out[idx+1] = srcData[i00+1]*w00 + srcData[i10+1]*w10 + srcData[i01+1]*w01 + srcData[i11+1]*w11;
+        out[idx+2] = srcData[i00+2]*w00 + srcData[i10+2]*w10 + srcData[i01+2]*w01 + srcData[i11+2]*w11;
+        out[idx+3] = 255;
+      }
+    }
+  }
+  return out;
+}
+
+// ── Integral images ──
+function integralImage(gray, w, h, squared) {
   var integral = new Float64Array((w+1)*(h+1));
   for (var y = 0; y < h; y++) {
     var rowSum = 0;
     for (var x = 0; x < w; x++) {
-      rowSum += gray[y*w+x];
+      var v = gray[y*w+x];
+      rowSum += squared ? v*v : v;
       integral[(y+1)*(w+1)+(x+1)] = integral[y*(w+1)+(x+1)] + rowSum;
     }
   }
+  return integral;
+}
+
+// Sum over the inclusive window [x1..x2] x [y1..y2]
+function windowSum(integral, w, x1, y1, x2, y2) {
+  return integral[(y2+1)*(w+1)+(x2+1)] - integral[y1*(w+1)+(x2+1)]
+       - integral[(y2+1)*(w+1)+x1] + integral[y1*(w+1)+x1];
+}
+
+// ── Adaptive threshold (integral image) ──
+function adaptiveThreshold(gray, w, h, blockSize, C) {
+  var integral = integralImage(gray, w, h, false);
   var out = new Uint8ClampedArray(w*h);
   var half = Math.floor(blockSize/2);
   for (var y = 0; y < h; y++) {
@@ -139,15 +306,49 @@ function adaptiveThreshold(gray, w, h, blockSize, C) {
       var x1 = Math.max(0, x-half), y1 = Math.max(0, y-half);
       var x2 = Math.min(w-1, x+half), y2 = Math.min(h-1, y+half);
       var area = (x2-x1+1)*(y2-y1+1);
-      var sum = integral[(y2+1)*(w+1)+(x2+1)] - integral[y1*(w+1)+(x2+1)]
-              - integral[(y2+1)*(w+1)+x1] + integral[y1*(w+1)+x1];
-      var mean = sum / area;
+      var mean = windowSum(integral, w, x1, y1, x2, y2) / area;
       out[y*w+x] = gray[y*w+x] < (mean - C) ? 0 : 255;
     }
   }
   return out;
 }
 
+// ── Sauvola / Wolf-Jolion threshold (local mean + standard deviation) ──
+// Sauvola: T = m * (1 + k * (s / 128 - 1))
+// Wolf:    T = (1 - k) * m + k * M + k * (s / maxS) * (m - M), M = darkest pixel
+function localStatsThreshold(gray, w, h, blockSize, k, wolf) {
+  var n = w*h;
+  var sum = integralImage(gray, w, h, false);
+  var sq = integralImage(gray, w, h, true);
+  var means = new Float32Array(n);
+  var sds = new Float32Array(n);
+  var half = Math.floor(blockSize/2);
+  var maxSd = 1e-6, minGray = 255;
+  for (var y = 0; y < h; y++) {
+    for (var x = 0; x < w; x++) {
+      var x1 = Math.max(0, x-half), y1 = Math.max(0, y-half);
+      var x2 = Math.min(w-1, x+half), y2 = Math.min(h-1, y+half);
+      var area = (x2-x1+1)*(y2-y1+1);
+      var m = windowSum(sum, w, x1, y1, x2, y2) / area;
+      var variance = windowSum(sq, w, x1, y1, x2, y2) / area - m*m;
+      var sd = variance > 0 ? Math.sqrt(variance) : 0;
+      means[y*w+x] = m;
+      sds[y*w+x] = sd;
+      if (sd > maxSd) maxSd = sd;
+      if (gray[y*w+x] < minGray) minGray = gray[y*w+x];
+    }
+  }
+  var out = new Uint8ClampedArray(n);
+  for (var i = 0; i < n; i++) {
+    var m = means[i], sd = sds[i];
+    var t = wolf
+      ? (1-k)*m + k*minGray + k*(sd/maxSd)*(m - minGray)
+      : m * (1 + k*(sd/128 - 1));
+    out[i] = gray[i] < t ? 0 : 255;
+  }
+  return out;
+}
+
 // ── toGray ──
 function toGray(data, w, h) {
   var n = w*h;
@@ -170,11 +371,47 @@ function histPercentile(hist, total, pct) {
 }
 
 // ── Enhancement modes ──
-function enhanceBW(data, w, h) {
-  var gray = toGray(data, w, h);
+// Sensitivity 0-100 (50 = default): higher values keep fainter strokes as ink
+function binarize(gray, w, h, options) {
+  var method = (options && options.binarization) || 'mean';
+  var s = options && typeof options.sensitivity === 'number' ? options.sensitivity : 50;
+  if (method === 'otsu') {
+    var t = otsuThreshold(gray, w, h) + (s - 50) * 0.6;
+    var out = new Uint8ClampedArray(w*h);
+    for (var i = 0; i < w*h; i++) out[i] = gray[i] <= t ? 0 : 255;
+    return out;
+  }
+  if (method === 'sauvola' || method === 'wolf') {
+    // Smaller windows than the mean method: the deviation term already adapts to contrast
+    var localBlock = Math.max(15, Math.round(Math.min(w,h)/40)|1);
+    if (localBlock % 2 === 0) localBlock++;
+    var k = method === 'wolf' ? 0.8 - s*0.006 : 0.4 - s*0.0034;
+    return localStatsThreshold(gray, w, h, localBlock, k, method === 'wolf');
+  }
   var blockSize = Math.max(15, Math.round(Math.min(w,h)/8)|1);
   if (blockSize % 2 === 0) blockSize++;
-  var bw = adaptiveThreshold(gray, w, h, blockSize, 10);
+  return adaptiveThreshold(gray, w, h, blockSize, 20 - s*0.2);
+}
+
+// Removes isolated ink blobs too small to be text (dust, sensor noise, paper grain)
+function despeckle(bw, w, h) {
+  var n = w*h;
+  var ink = new Uint8Array(n);
+  for (var i = 0; i < n; i++) ink[i] = bw[i] === 0 ? 255 : 0;
+  var cc = labelComponents(ink, w, h);
+  var maxArea = Math.max(2, Math.round(Math.min(w,h)/250));
+  var sizes = new Int32Array(cc.comps.length + 1);
+  for (var ci = 0; ci < cc.comps.length; ci++) sizes[cc.comps[ci].label] = cc.comps[ci].size;
+  for (var i = 0; i < n; i++) {
+    var l = cc.labels[i];
+    if (l !== 0 && sizes[l] <= maxArea) bw[i] = 255;
+  }
+}
+
+function enhanceBW(data, w, h, options) {
+  var gray = toGray(data, w, h);
+  var bw = binarize(gray, w, h, options);
+  if (!options || options.despeckle !== false) despeckle(bw, w, h);
   for (var i = 0; i < w*h; i++) {
     if (data[i*4+3] === 0) continue;
     data[i*4] = data[i*4+1] = data[i*4+2] = bw[i];
@@ -226,6 +463,153 @@ function enhanceColor(data, w, h) {
   }
 }
 
+// ── Paper background estimation ──
+// Samples the brightest pixels of each grid cell per channel, fills
+// cells swallowed by ink from their neighbours and smooths the grid,
+// giving a low-frequency map of the paper/illumination colour.
+function estimateBackground(data, w, h) {
+  var cell = Math.max(16, Math.round(Math.min(w, h) / 24));
+  var gw = Math.ceil(w / cell), gh = Math.ceil(h / cell);
+  var grid = new Float32Array(gw * gh * 3);
+  var hist = new Uint32Array(768);
+  for (var gy = 0; gy < gh; gy++) {
+    for (var gx = 0; gx < gw; gx++) {
+      hist.fill(0);
+      var valid = 0;
+      var y1 = Math.min(h, (gy + 1) * cell), x1 = Math.min(w, (gx + 1) * cell);
+      for (var y = gy * cell; y < y1; y++) {
+        for (var x = gx * cell; x < x1; x++) {
+          var p = (y * w + x) * 4;
+          if (data[p+3] === 0) continue;
+          hist[data[p]]++;
+          hist[256 + data[p+1]]++;
+          hist[512 + data[p+2]]++;
+          valid++;
+        }
+      }
+      var gi = (gy * gw + gx) * 3;
+      for (var c = 0; c < 3; c++) {
+        grid[gi+c] = valid ? histPercentile(hist.subarray(c * 256, c * 256 + 256), valid, 0.9) : -1;
+      }
+    }
+  }
+
+  // Dilate (max) once so text-heavy cells take the surrounding paper colour
+  var dil = new Float32Array(grid.length);
+  for (var gy = 0; gy < gh; gy++) {
+    for (var gx = 0; gx < gw; gx++) {
+      for (var c = 0; c < 3; c++) {
+        var m = -1;
+        for (var dy = -1; dy <= 1; dy++) {
+          for (var dx = -1; dx <= 1; dx++) {
+            var ny = gy + dy, nx = gx + dx;
+            if (ny < 0 || nx < 0 || ny >= gh || nx >= gw) continue;
+            var v = grid[(ny * gw + nx) * 3 + c];
+            if (v > m) m = v;
+          }
+        }
+        dil[(gy * gw + gx) * 3 + c] = m < 0 ? 255 : m;
+      }
+    }
+  }
+
+  // Two box-blur passes to remove cell seams
+  for (var pass = 0; pass < 2; pass++) {
+    var blur = new Float32Array(dil.length);
+    for (var gy = 0; gy < gh; gy++) {
+      for (var gx = 0; gx < gw; gx++) {
+        for (var c = 0; c < 3; c++) {
+          var sum = 0, cnt = 0;
+          for (var dy = -1; dy <= 1; dy++) {
+            for (var dx = -1; dx <= 1; dx++) {
+              var ny = gy + dy, nx = gx + dx;
+              if (ny < 0 || nx < 0 || ny >= gh || nx >= gw) continue;
+              sum += dil[(ny * gw + nx) * 3 + c];
+              cnt++;
+            }
+          }
+          blur[(gy * gw + gx) * 3 + c] = sum / cnt;
+        }
+      }
+    }
+    dil = blur;
+  }
+  return { grid: dil, gw: gw, gh: gh, cell: cell };
+}
+
+// Divide every pixel by the (bilinearly sampled) background so paper becomes white
+function normalizeBackground(data, w, h) {
+  var bg = estimateBackground(data, w, h);
+  var grid = bg.grid, gw = bg.gw, gh = bg.gh, cell = bg.cell;
+  for (var y = 0; y < h; y++) {
+    var fy = Math.min(gh - 1, Math.max(0, (y + 0.5) / cell - 0.5));
+    var y0 = Math.floor(fy), y1 = Math.min(gh - 1, y0 + 1), ty = fy - y0;
+    for (var x = 0; x < w; x++) {
+      var p = (y * w + x) * 4;
+      if (data[p+3] === 0) continue;
+      var fx = Math.min(gw - 1, Math.max(0, (x + 0.5) / cell - 0.5));
+      var x0 = Math.floor(fx), x1 = Math.min(gw - 1, x0 + 1), tx = fx - x0;
+      for (var c = 0; c < 3; c++) {
+        var a = grid[(y0 * gw + x0) * 3 + c], b = grid[(y0 * gw + x1) * 3 + c];
+        var d = grid[(y1 * gw + x0) * 3 + c], e = grid[(y1 * gw + x1) * 3 + c];
+        var bgv = (a + (b - a) * tx) * (1 - ty) + (d + (e - d) * tx) * ty;
+        data[p+c] = Math.round(data[p+c] * 255 / Math.max(bgv, 32));
+      }
+    }
+  }
+}
+
+// Stretch towards white above paperLevel and scale chroma around luminance
+function toneAndSaturate(data, w, h, paperLevel, saturation) {
+  var n = w * h;
+  var gray = toGray(data, w, h);
+  var hist = new Uint32Array(256);
+  var valid = 0;
+  for (var i = 0; i < n; i++) {
+    if (data[i*4+3] === 0) continue;
+    hist[gray[i]]++;
+    valid++;
+  }
+  if (valid === 0) return;
+  var lo = Math.min(histPercentile(hist, valid, 0.005), paperLevel - 1);
+  var range = paperLevel - lo;
+  for (var i = 0; i < n; i++) {
+    var p = i * 4;
+    if (data[p+3] === 0) continue;
+    var l = gray[i];
+    for (var c = 0; c < 3; c++) {
+      var v = l + (data[p+c] - l) * saturation;
+      v = ((v - lo) / range) * 255;
+      data[p+c] = v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+    }
+  }
+}
+
+// Paper flattened to white while ink keeps (and gains) its colour
+function enhanceMagic(data, w, h) {
+  normalizeBackground(data, w, h);
+  toneAndSaturate(data, w, h, 235, 1.35);
+}
+
+// Glare and board shading removed; faint marker strokes pushed to full strength
+function enhanceWhiteboard(data, w, h) {
+  normalizeBackground(data, w, h);
+  toneAndSaturate(data, w, h, 215, 1.8);
+}
+
+function applyEnhancement(data, w, h, mode, options) {
+  // Magic color and whiteboard already flatten the lighting themselves
+  if (options && options.removeShadows && mode !== 'magic' && mode !== 'whiteboard') {
+    normalizeBackground(data, w, h);
+  }
+  if (mode === 'bw') enhanceBW(data, w, h, options);
+  else if (mode === 'gray') enhanceGray(data, w, h);
+  else if (mode === 'magic') enhanceMagic(data, w, h);
+  else if (mode === 'whiteboard') enhanceWhiteboard(data, w, h);
+  else if (mode === 'color') enhanceColor(data, w, h);
+  // 'photo': perspective correction only, tones untouched
+}
+
 // ── Document boundary detection ──
 
 function gaussianBlur5x5(gray, w, h) {
@@ -536,11 +920,18 @@ function normalizeQuad(ordered, w, h) {
   };
 }
 
-function validateQuad(pts, w, h) {
+// Smallest accepted quad, as shares of the image area and of its short side.
+// Receipts are long and narrow, so receipt detection accepts much thinner quads.
+var QUAD_LIMITS = {
+  document: { minArea: 0.1, minEdge: 0.1 },
+  receipt: { minArea: 0.02, minEdge: 0.03 }
+};
+
+function validateQuad(pts, w, h, limits) {
   if (!isConvex(pts)) return false;
-  if (contourArea(pts) < 0.1 * w * h) return false;
+  if (contourArea(pts) < limits.minArea * w * h) return false;
   var n = pts.length;
-  var minEdge = Math.min(w, h) * 0.1;
+  var minEdge = Math.min(w, h) * limits.minEdge;
   for (var i = 0; i < n; i++) {
     var a = pts[(i - 1 + n) % n], b = pts[i], c = pts[(i + 1) % n];
     var v1x = a[0] - b[0], v1y = a[1] - b[1];
@@ -557,7 +948,7 @@ function validateQuad(pts, w, h) {
   return true;
 }
 
-function tryFitQuadFromHull(hull, epsilons, w, h, bestQuad, bestArea) {
+function tryFitQuadFromHull(hull, epsilons, w, h, limits, bestQuad, bestArea) {
   var peri = 0;
   for (var i = 0; i < hull.length; i++) {
     var j = (i + 1) % hull.length;
@@ -567,7 +958,7 @@ function tryFitQuadFromHull(hull, epsilons, w, h, bestQuad, bestArea) {
   for (var ei = 0; ei < epsilons.length; ei++) {
     var approx = douglasPeucker(hull, epsilons[ei] * peri);
     if (approx.length === 4) {
-      if (validateQuad(approx, w, h)) {
+      if (validateQuad(approx, w, h, limits)) {
         var area = contourArea(approx);
         if (area > bestArea) { bestArea = area; bestQuad = approx; }
       }
@@ -575,7 +966,7 @@ function tryFitQuadFromHull(hull, epsilons, w, h, bestQuad, bestArea) {
       for (var skip = 0; skip < 5; skip++) {
         var quad = [];
         for (var k = 0; k < 5; k++) { if (k !== skip) quad.push(approx[k]); }
-        if (validateQuad(quad, w, h)) {
+        if (validateQuad(quad, w, h, limits)) {
           var area = contourArea(quad);
           if (area > bestArea) { bestArea = area; bestQuad = quad; }
         }
@@ -585,7 +976,7 @@ function tryFitQuadFromHull(hull, epsilons, w, h, bestQuad, bestArea) {
   return { bestQuad: bestQuad, bestArea: bestArea };
 }
 
-function contourBasedDetection(edges, w, h) {
+function contourBasedDetection(edges, w, h, limits) {
   var bestQuad = null, bestArea = 0;
   var radii = [2, 4, 8];
   var epsilons = [0.015, 0.02, 0.03, 0.04, 0.06, 0.08];
@@ -621,7 +1012,7 @@ function contourBasedDetection(edges, w, h) {
       var hullArea = contourArea(hull);
       if (hullArea > 0.9 * w * h) continue; // background noise
 
-      var fit = tryFitQuadFromHull(hull, epsilons, w, h, bestQuad, bestArea);
+      var fit = tryFitQuadFromHull(hull, epsilons, w, h, limits, bestQuad, bestArea);
       bestQuad = fit.bestQuad; bestArea = fit.bestArea;
     }
 
@@ -657,7 +1048,7 @@ function otsuThreshold(gray, w, h) {
   return bestThresh;
 }
 
-function segmentBasedDetection(gray, w, h) {
+function segmentBasedDetection(gray, w, h, limits) {
   // Strong blur to remove text/texture while preserving document outline
   var blurred = gaussianBlur5x5(gray, w, h);
   blurred = gaussianBlur5x5(blurred, w, h);
@@ -712,7 +1103,7 @@ function segmentBasedDetection(gray, w, h) {
       if (hullArea > 0.9 * w * h || hullArea < 0.05 * w * h) continue;
 
       var segEpsilons = [0.015, 0.02, 0.03, 0.04, 0.06];
-      var fit = tryFitQuadFromHull(hull, segEpsilons, w, h, bestQuad, bestArea);
+      var fit = tryFitQuadFromHull(hull, segEpsilons, w, h, limits, bestQuad, bestArea);
       bestQuad = fit.bestQuad; bestArea = fit.bestArea;
     }
 
@@ -782,7 +1173,7 @@ function lineIntersection(l1, l2) {
   return [x, y];
 }
 
-function findBestQuad(lines, w, h) {
+function findBestQuad(lines, w, h, limits) {
   if (lines.length < 4) return null;
   // Classify lines with overlapping angle ranges to support ~30° tilted documents
   var horizontal = [], vertical = [];
@@ -873,14 +1264,14 @@ function findBestQuad(lines, w, h) {
       return null;
     }
   }
-  // Validate: quadrilateral area > 10% of image area
+  // Validate: quadrilateral area above the minimum share of the image area
   var quadArea = 0.5 * Math.abs(
     (tr[0]-tl[0])*(bl[1]-tl[1]) - (bl[0]-tl[0])*(tr[1]-tl[1]) +
     (br[0]-tr[0])*(tl[1]-tr[1]) - (tl[0]-tr[0])*(br[1]-tr[1]) +
     (bl[0]-br[0])*(tr[1]-br[1]) - (tr[0]-br[0])*(bl[1]-br[1]) +
     (tl[0]-bl[0])*(br[1]-bl[1]) - (br[0]-bl[0])*(tl[1]-bl[1])
   );
-  if (quadArea < 0.1 * w * h) return null;
+  if (quadArea < limits.minArea * w * h) return null;
   // Normalize to 0-1
   return normalizeQuad([tl, tr, br, bl], w, h);
 }
@@ -931,7 +1322,7 @@ function intersectLineEq(l1, l2) {
   return [(l1.b * l2.c - l2.b * l1.c) / det, (l2.a * l1.c - l1.a * l2.c) / det];
 }
 
-function gradientRansacDetection(gray, w, h) {
+function gradientRansacDetection(gray, w, h, limits) {
   var blurred = gaussianBlur5x5(gaussianBlur5x5(gray, w, h), w, h);
   var grad = sobelGradients(blurred, w, h);
   var nms = nonMaxSuppression(grad.mag, grad.dir, w, h);
@@ -1021,7 +1412,7 @@ function gradientRansacDetection(gray, w, h) {
           if (sep > bestSep) { bestSep = sep; bestPair = [lines[i], lines[j]]; }
         }
       }
-      if (!bestPair || bestSep < Math.min(w, h) * 0.10) { pairsOk = false; break; }
+      if (!bestPair || bestSep < Math.min(w, h) * limits.minEdge) { pairsOk = false; break; }
       pairs[gi] = bestPair;
     }
     if (!pairsOk) continue;
@@ -1048,14 +1439,15 @@ function gradientRansacDetection(gray, w, h) {
     if (!inBounds) continue;
 
     var ordered = orderCorners(corners);
-    if (!validateQuad(ordered, w, h)) continue;
+    if (!validateQuad(ordered, w, h, limits)) continue;
 
     return normalizeQuad(ordered, w, h);
   }
   return null;
 }
 
-function detectDocument(base64) {
+function detectDocument(base64, receipt) {
+  var limits = receipt ? QUAD_LIMITS.receipt : QUAD_LIMITS.document;
   return new Promise(function(resolve) {
     var img = new Image();
     img.onload = function() {
@@ -1076,19 +1468,19 @@ function detectDocument(base64) {
         var data = ctx.getImageData(0, 0, w, h).data;
         var gray = toGray(data, w, h);
         // Primary: gradient-direction RANSAC (robust for tilted documents)
-        var quad = gradientRansacDetection(gray, w, h);
+        var quad = gradientRansacDetection(gray, w, h, limits);
         if (!quad) {
           // Secondary: brightness segmentation
-          quad = segmentBasedDetection(gray, w, h);
+          quad = segmentBasedDetection(gray, w, h, limits);
         }
         if (!quad) {
           var edges = cannyEdges(gray, w, h);
           // Tertiary: edge-based contour + hull detection
-          quad = contourBasedDetection(edges, w, h);
+          quad = contourBasedDetection(edges, w, h, limits);
           if (!quad) {
             // Quaternary: Hough line detection
             var lines = houghLines(edges, w, h);
-            quad = findBestQuad(lines, w, h);
+            quad = findBestQuad(lines, w, h, limits);
           }
         }
         resolve(quad);
@@ -1101,16 +1493,217 @@ function detectDocument(base64) {
   });
 }
 
-function decodeBase64Image(base64) {
+// ── Deskew (projection profile search over text lines) ──
+// Returns the clockwise tilt of the text lines in degrees (within ±5), or 0 when unsure
+function estimateSkew(gray, w, h) {
+  var blockSize = Math.max(15, Math.round(Math.min(w,h)/20)|1);
+  if (blockSize % 2 === 0) blockSize++;
+  var bw = adaptiveThreshold(gray, w, h, blockSize, 15);
+  // Ignore a 3% margin where paper edges and background leftovers live
+  var mx = Math.round(w*0.03), my = Math.round(h*0.03);
+  var inkCount = 0;
+  for (var y = my; y < h-my; y++) {
+    for (var x = mx; x < w-mx; x++) if (bw[y*w+x] === 0) inkCount++;
+  }
+  if (inkCount < 200) return 0;
+  var stride = Math.max(1, Math.ceil(inkCount / 30000));
+  var xs = [], ys = [], k = 0;
+  for (var y = my; y < h-my; y++) {
+    for (var x = mx; x < w-mx; x++) {
+      if (bw[y*w+x] !== 0) continue;
+      if (k++ % stride === 0) { xs.push(x); ys.push(y); }
+    }
+  }
+  var offset = Math.ceil(w * 0.1) + 1;
+  var bins = new Float64Array(h + 2*offset);
+  // Sharper row peaks (text lines aligned with the projection) give a higher sum of squares
+  function score(angle) {
+    var t = angle * Math.PI / 180, s = Math.sin(t), c = Math.cos(t);
+    bins.fill(0);
+    for (var i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i]*c - xs[i]*s) + offset]++;
+    }
+    var sum = 0;
+    for (var b = 0; b < bins.length; b++) sum += bins[b]*bins[b];
+    return sum;
+  }
+  var best = 0, bestScore = score(0), zeroScore = bestScore;
+  for (var a = -5; a <= 5; a += 0.5) {
+    var sc = score(a);
+    if (sc > bestScore) { bestScore = sc; best = a; }
+  }
+  var coarse = best;
+  for (var a = coarse - 0.5; a <= coarse + 0.5; a += 0.1) {
+    var sc = score(a);
+    if (sc > bestScore) { bestScore = sc; best = a; }
+  }
+  best = Math.round(best * 10) / 10;
+  if (Math.abs(best) < 0.1 || bestScore < zeroScore * 1.02) return 0;
+  return best;
+}
+
+// Skew of a warped RGBA page, measured on a copy of at most ~800px
+function estimateWarpedSkew(rgba, w, h) {
+  var scale = Math.min(1, 800 / Math.max(w, h));
+  var sw = Math.max(1, Math.round(w*scale)), sh = Math.max(1, Math.round(h*scale));
+  var gray = new Uint8Array(sw*sh);
+  for (var y = 0; y < sh; y++) {
+    var oy = Math.min(h-1, Math.floor(y/scale));
+    for (var x = 0; x < sw; x++) {
+      var p = (oy*w + Math.min(w-1, Math.floor(x/scale)))*4;
+      gray[y*sw+x] = rgba[p+3] === 0 ? 255 : (0.299*rgba[p] + 0.587*rgba[p+1] + 0.114*rgba[p+2] + 0.5)|0;
+    }
+  }
+  return estimateSkew(gray, sw, sh);
+}
+
+// Source quad whose warp is the current dw x dh output rotated back by angle degrees
+function deskewQuad(H_inv, dw, dh, angle) {
+  var t = angle * Math.PI / 180, s = Math.sin(t), c = Math.cos(t);
+  var cx = dw/2, cy = dh/2;
+  var rect = [[0,0],[dw,0],[dw,dh],[0,dh]];
+  var quad = [];
+  for (var i = 0; i < 4; i++) {
+    var x = cx + (rect[i][0]-cx)*c - (rect[i][1]-cy)*s;
+    var y = cy + (rect[i][0]-cx)*s + (rect[i][1]-cy)*c;
+    var wz = H_inv[6]*x + H_inv[7]*y + H_inv[8];
+    quad.push([(H_inv[0]*x + H_inv[1]*y + H_inv[2]) / wz, (H_inv[3]*x + H_inv[4]*y + H_inv[5]) / wz]);
+  }
+  return quad;
+}
+
+// ── Text orientation (projection profiles) ──
+// Contrast of a projection profile: text lines alternate with blank gaps, so
+// the profile across the lines varies far more than the one along them.
+// Smoothing first keeps letter spacing from counting as structure.
+function profileContrast(profile) {
+  var n = profile.length;
+  var r = Math.max(2, Math.round(n / 200));
+  var sum = 0, sumSq = 0;
+  for (var i = 0; i < n; i++) {
+    var s = 0, c = 0;
+    for (var j = Math.max(0, i - r); j <= Math.min(n - 1, i + r); j++) { s += profile[j]; c++; }
+    var v = s / c;
+    sum += v;
+    sumSq += v * v;
+  }
+  var mean = sum / n;
+  if (mean <= 0) return 0;
+  return Math.sqrt(Math.max(0, sumSq / n - mean * mean)) / mean;
+}
+
+// Rotates a w x h mask 90° clockwise into an h x w mask
+function rotateMaskCW(mask, w, h) {
+  var out = new Uint8Array(w*h);
+  for (var y = 0; y < h; y++) {
+    for (var x = 0; x < w; x++) {
+      out[x*h + (h-1-y)] = mask[y*w+x];
+    }
+  }
+  return out;
+}
+
+// Compares ink above and below the x-height band of each text line.
+// Latin scripts have more ascenders than descenders, so upright text
+// carries more ink above the band. Returns { up, down, lines }.
+function lineAsymmetry(mask, w, h) {
+  var rows = new Float64Array(h);
+  var peak = 0;
+  for (var y = 0; y < h; y++) {
+    var s = 0;
+    for (var x = 0; x < w; x++) s += mask[y*w+x];
+    rows[y] = s;
+    if (s > peak) peak = s;
+  }
+  var up = 0, down = 0, lines = 0;
+  var minRow = peak * 0.08;
+  var y = 0;
+  while (y < h) {
+    if (rows[y] <= minRow) { y++; continue; }
+    var y0 = y;
+    while (y < h && rows[y] > minRow) y++;
+    var y1 = y - 1;
+    if (y1 - y0 < 4) continue;
+    var linePeak = 0;
+    for (var ly = y0; ly <= y1; ly++) if (rows[ly] > linePeak) linePeak = rows[ly];
+    var top = y0, bottom = y1;
+    while (rows[top] < linePeak * 0.5) top++;
+    while (rows[bottom] < linePeak * 0.5) bottom--;
+    for (var ly = y0; ly < top; ly++) up += rows[ly];
+    for (var ly = bottom + 1; ly <= y1; ly++) down += rows[ly];
+    lines++;
+  }
+  return { up: up, down: down, lines: lines };
+}
+
+// Clockwise rotation (0/90/180/270) that makes the text upright; 0 when unsure
+function detectTextOrientation(gray, w, h) {
+  var blockSize = Math.max(15, Math.round(Math.min(w,h)/20)|1);
+  if (blockSize % 2 === 0) blockSize++;
+  var bw = adaptiveThreshold(gray, w, h, blockSize, 15);
+  var mask = new Uint8Array(w*h);
+  var ink = 0;
+  for (var i = 0; i < w*h; i++) {
+    if (bw[i] === 0) { mask[i] = 1; ink++; }
+  }
+  if (ink < w*h*0.005) return 0;
+
+  var rowProfile = new Float64Array(h), colProfile = new Float64Array(w);
+  for (var y = 0; y < h; y++) {
+    for (var x = 0; x < w; x++) {
+      if (mask[y*w+x]) { rowProfile[y]++; colProfile[x]++; }
+    }
+  }
+  var rowContrast = profileContrast(rowProfile);
+  var colContrast = profileContrast(colProfile);
+
+  var vertical;
+  if (rowContrast > colContrast * 1.25) vertical = false;
+  else if (colContrast > rowContrast * 1.25) vertical = true;
+  else return 0;
+
+  var asym = vertical ? lineAsymmetry(rotateMaskCW(mask, w, h), h, w) : lineAsymmetry(mask, w, h);
+  if (asym.lines < 3) return 0;
+  var upright = asym.up > asym.down * 1.15;
+  var flipped = asym.down > asym.up * 1.15;
+  if (vertical) return upright ? 90 : flipped ? 270 : 0;
+  return flipped ? 180 : 0;
+}
+
+function detectOrientation(base64) {
+  return decodeBase64Image(base64).then(function(bmp) {
+    var maxSide = 1000;
+    var scale = Math.min(1, maxSide / Math.max(bmp.width, bmp.height));
+    var w = Math.round(bmp.width * scale), h = Math.round(bmp.height * scale);
+    var canvas = document.getElementById('src');
+    canvas.width = w; canvas.height = h;
+    var ctx = canvas.getContext('2d');
+    ctx.drawImage(bmp, 0, 0, w, h);
+    bmp.close();
+    var gray = toGray(ctx.getImageData(0, 0, w, h).data, w, h);
+    return detectTextOrientation(gray, w, h);
+  });
+}
+
+// WebKit refuses canvases above 16.7 megapixels, whatever the memory available
+var MAX_CANVAS_PIXELS = 16777216;
+
+// maxDim limits the long side (1600 by default); 0 keeps the full resolution
+// up to the canvas limit
+function decodeBase64Image(base64, maxDim) {
   var binary = atob(base64);
   var bytes = new Uint8Array(binary.length);
   for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
   var blob = new Blob([bytes], { type: 'image/jpeg' });
+  if (maxDim === undefined) maxDim = 1600;
   // First create at full size to get dimensions, then resize if needed
   return createImageBitmap(blob).then(function(fullBmp) {
-    var maxDim = 1600;
-    if (fullBmp.width <= maxDim && fullBmp.height <= maxDim) return fullBmp;
-    var scale = maxDim / Math.max(fullBmp.width, fullBmp.height);
+    var longSide = Math.max(fullBmp.width, fullBmp.height);
+    var scale = Math.min(
+      maxDim > 0 ? maxDim / longSide : 1,
+      Math.sqrt(MAX_CANVAS_PIXELS / (fullBmp.width * fullBmp.height))
+    );
+    if (scale >= 1) return fullBmp;
     var nw = Math.round(fullBmp.width * scale);
     var nh = Math.round(fullBmp.height * scale);
     fullBmp.close();
@@ -1118,9 +1711,175 @@ function decodeBase64Image(base64) {
   });
 }
 
-// ── Main process handler ──
-function processImage(base64, corners, mode) {
+// Deskew for a crop that the native processor will warp: measures the skew
+// on a small warp and returns corners that produce the straightened page directly
+function deskewCorners(base64, corners) {
+  return decodeBase64Image(base64).then(function(bmp) {
+    var scale = Math.min(1, 1000 / Math.max(bmp.width, bmp.height));
+    var sw = Math.round(bmp.width * scale), sh = Math.round(bmp.height * scale);
+    var srcCanvas = document.getElementById('src');
+    srcCanvas.width = sw; srcCanvas.height = sh;
+    var srcCtx = srcCanvas.getContext('2d');
+    srcCtx.drawImage(bmp, 0, 0, sw, sh);
+    bmp.close();
+    var srcData = srcCtx.getImageData(0, 0, sw, sh).data;
+
+    var tl = [corners.tl.x*sw, corners.tl.y*sh];
+    var tr = [corners.tr.x*sw, corners.tr.y*sh];
+    var br = [corners.br.x*sw, corners.br.y*sh];
+    var bl = [corners.bl.x*sw, corners.bl.y*sh];
+    var dw = Math.max(50, Math.round(Math.max(dist(tl,tr), dist(bl,br))));
+    var dh = Math.max(50, Math.round(Math.max(dist(tl,bl), dist(tr,br))));
+
+    var H = computeHomography([tl, tr, br, bl], [[0,0],[dw,0],[dw,dh],[0,dh]]);
+    var H_inv = H && invert3x3(H);
+    if (!H_inv) throw new Error('Failed to compute homography');
+    var angle = estimateWarpedSkew(warp(srcData, sw, sh, H_inv, dw, dh), dw, dh);
+    if (angle === 0) return { angle: 0, corners: corners };
+
+    var quad = deskewQuad(H_inv, dw, dh, angle);
+    // Rotating a near full-frame crop pushes corners off the image, which the
+    // native warps fill differently (white on Android, transparent on iOS);
+    // kept inside, the page edge is trimmed instead
+    function norm(pt) {
+      return { x: Math.min(1, Math.max(0, pt[0] / sw)), y: Math.min(1, Math.max(0, pt[1] / sh)) };
+    }
+    return { angle: angle, corners: { tl: norm(quad[0]), tr: norm(quad[1]), br: norm(quad[2]), bl: norm(quad[3]) } };
+  });
+}
+
+// Homography warp of a flat quad, optionally re-warped to remove residual skew
+function warpFlat(srcCtx, sw, sh, srcPts, dw, dh, deskew) {
+  var dstPts = [[0,0],[dw,0],[dw,dh],[0,dh]];
+  var H = computeHomography(srcPts, dstPts);
+  if (!H) throw new Error('Failed to compute homography');
+  var H_inv = invert3x3(H);
+  if (!H_inv) throw new Error('Failed to invert homography');
+  var data = warpTiled(srcCtx, sw, sh, H_inv, dw, dh);
+  var skewAngle = 0;
+  if (deskew) {
+    skewAngle = estimateWarpedSkew(data, dw, dh);
+    if (skewAngle !== 0) {
+      H = computeHomography(deskewQuad(H_inv, dw, dh, skewAngle), dstPts);
+      H_inv = H && invert3x3(H);
+      if (!H_inv) throw new Error('Failed to compute deskew homography');
+      data = warpTiled(srcCtx, sw, sh, H_inv, dw, dh);
+    }
+  }
+  return { data: data, skewAngle: skewAngle };
+}
+
+// ── Spread gutter (two-page book scans) ──
+// Column profile of a horizontal band, smoothed: [mean brightness, ink fraction]
+function columnProfile(gray, w, h, y0, y1) {
+  var mean = new Float32Array(w), ink = new Float32Array(w);
+  var bw = adaptiveThreshold(gray, w, h, Math.max(15, Math.round(Math.min(w, h) / 30) | 1), 12);
+  for (var y = y0; y < y1; y++) {
+    for (var x = 0; x < w; x++) {
+      mean[x] += gray[y*w+x];
+      if (bw[y*w+x] === 0) ink[x]++;
+    }
+  }
+  var rows = Math.max(1, y1 - y0);
+  var r = Math.max(2, Math.round(w / 80));
+  var outMean = new Float32Array(w), outInk = new Float32Array(w);
+  for (var i = 0; i < w; i++) {
+    var a = Math.max(0, i - r), b = Math.min(w - 1, i + r), sm = 0, si = 0;
+    for (var j = a; j <= b; j++) { sm += mean[j]; si += ink[j]; }
+    outMean[i] = sm / (b - a + 1) / rows;
+    outInk[i] = si / (b - a + 1) / rows;
+  }
+  return { mean: outMean, ink: outInk };
+}
+
+// Gutter column within the middle of the spread: the binding shadow when there
+// is one, otherwise the centre of the widest text-free strip; -1 when neither
+function findGutterColumn(profile, w) {
+  var lo = Math.round(w * 0.3), hi = Math.round(w * 0.7);
+  var band = Array.prototype.slice.call(profile.mean, lo, hi).sort(function(a, b) { return a - b; });
+  var median = band[band.length >> 1];
+  var best = -1, bestVal = Infinity;
+  for (var x = lo; x < hi; x++) {
+    if (profile.mean[x] < bestVal) { bestVal = profile.mean[x]; best = x; }
+  }
+  if (median - bestVal > 12) return best;
+
+  var runStart = -1, bestLen = 0;
+  best = -1;
+  for (x = lo; x <= hi; x++) {
+    var clear = x < hi && profile.ink[x] < 0.01;
+    if (clear && runStart < 0) runStart = x;
+    if (!clear && runStart >= 0) {
+      if (x - runStart > bestLen) { bestLen = x - runStart; best = (runStart + x) >> 1; }
+      runStart = -1;
+    }
+  }
+  return bestLen >= w * 0.01 ? best : -1;
+}
+
+// Position along the source edge a->b (0..1) of source point p
+function edgeFraction(a, b, p) {
+  var dx = b[0] - a[0], dy = b[1] - a[1];
+  var len2 = dx*dx + dy*dy;
+  if (len2 === 0) return 0.5;
+  return ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2;
+}
+
+// Gutter of a two-page spread as fractions along the top and bottom crop edges
+function detectGutter(base64, corners) {
   return decodeBase64Image(base64).then(function(bmp) {
+    var scale = Math.min(1, 1000 / Math.max(bmp.width, bmp.height));
+    var sw = Math.round(bmp.width * scale), sh = Math.round(bmp.height * scale);
+    var srcCanvas = document.getElementById('src');
+    srcCanvas.width = sw; srcCanvas.height = sh;
+    var srcCtx = srcCanvas.getContext('2d');
+    srcCtx.drawImage(bmp, 0, 0, sw, sh);
+    bmp.close();
+    var srcData = srcCtx.getImageData(0, 0, sw, sh).data;
+
+    var tl = [corners.tl.x*sw, corners.tl.y*sh];
+    var tr = [corners.tr.x*sw, corners.tr.y*sh];
+    var br = [corners.br.x*sw, corners.br.y*sh];
+    var bl = [corners.bl.x*sw, corners.bl.y*sh];
+    var dw = Math.max(50, Math.round(Math.max(dist(tl,tr), dist(bl,br))));
+    var dh = Math.max(50, Math.round(Math.max(dist(tl,bl), dist(tr,br))));
+
+    var H = computeHomography([tl, tr, br, bl], [[0,0],[dw,0],[dw,dh],[0,dh]]);
+    var H_inv = H && invert3x3(H);
+    if (!H_inv) throw new Error('Failed to compute homography');
+    var gray = toGray(warp(srcData, sw, sh, H_inv, dw, dh), dw, dh);
+
+    // Measured separately near the top and bottom so a tilted gutter is followed
+    var yTop = Math.round(dh * 0.25), yBottom = Math.round(dh * 0.75);
+    var xTop = findGutterColumn(columnProfile(gray, dw, dh, Math.round(dh * 0.05), Math.round(dh * 0.45)), dw);
+    var xBottom = findGutterColumn(columnProfile(gray, dw, dh, Math.round(dh * 0.55), Math.round(dh * 0.95)), dw);
+    if (xTop < 0 && xBottom < 0) return { top: 0.5, bottom: 0.5 };
+    if (xTop < 0) xTop = xBottom;
+    if (xBottom < 0) xBottom = xTop;
+
+    // Extend the measured line to the crop edges and map it back onto the source quad
+    var slope = (xBottom - xTop) / (yBottom - yTop);
+    var atTop = applyH(H_inv, xTop - slope * yTop, 0);
+    var atBottom = applyH(H_inv, xBottom + slope * (dh - yBottom), dh);
+    function clamp(f) { return Math.max(0.1, Math.min(0.9, f)); }
+    return { top: clamp(edgeFraction(tl, tr, atTop)), bottom: clamp(edgeFraction(bl, br, atBottom)) };
+  });
+}
+
+// ── Main process handler ──
+// Encodes per { format: 'jpeg'|'png'|'webp', quality: 1-100 }. Browsers without
+// a WebP encoder return PNG; RN reads the actual format from the bytes.
+function encodeCanvas(canvas, encoding) {
+  var format = (encoding && encoding.format) || 'jpeg';
+  var quality = encoding && encoding.quality ? encoding.quality / 100 : 0.92;
+  return canvas.toDataURL('image/' + format, quality).split(',')[1];
+}
+
+// Long-side limit of the processed page when the options do not set one
+var DEFAULT_MAX_OUTPUT = 4000;
+
+function processImage(base64, corners, mode, options, curves, encoding, aspectRatio) {
+  return decodeBase64Image(base64, 0).then(function(bmp) {
     var sw = bmp.width, sh = bmp.height;
 
     var srcCanvas = document.getElementById('src');
@@ -1128,38 +1887,46 @@ function processImage(base64, corners, mode) {
     var srcCtx = srcCanvas.getContext('2d');
     srcCtx.drawImage(bmp, 0, 0);
     bmp.close();
-    var srcData = srcCtx.getImageData(0, 0, sw, sh).data;
 
     var tl = [corners.tl.x*sw, corners.tl.y*sh];
     var tr = [corners.tr.x*sw, corners.tr.y*sh];
     var br = [corners.br.x*sw, corners.br.y*sh];
     var bl = [corners.bl.x*sw, corners.bl.y*sh];
 
-    var dw = Math.round(Math.max(dist(tl,tr), dist(bl,br)));
+    var edges = curves ? curvedEdges(corners, curves, sw, sh) : null;
+    var dw = edges
+      ? Math.round(Math.max(edgeLength(edges.top), edgeLength(edges.bottom)))
+      : Math.round(Math.max(dist(tl,tr), dist(bl,br)));
     var dh = Math.round(Math.max(dist(tl,bl), dist(tr,br)));
+    // Edge lengths foreshorten under perspective; keep the pixel count but take the estimated paper proportions
+    if (aspectRatio > 0) {
+      var area = dw * dh;
+      dh = Math.round(Math.sqrt(area / aspectRatio));
+      dw = Math.round(dh * aspectRatio);
+    }
     dw = Math.max(dw, 100);
     dh = Math.max(dh, 100);
-    var maxDim = 2000;
+    var maxDim = (options && options.maxOutputSize) || DEFAULT_MAX_OUTPUT;
     if (dw > maxDim || dh > maxDim) {
       var dimScale = maxDim / Math.max(dw, dh);
       dw = Math.round(dw * dimScale);
       dh = Math.round(dh * dimScale);
     }
 
-    var srcPts = [tl, tr, br, bl];
-    var dstPts = [[0,0],[dw,0],[dw,dh],[0,dh]];
-    var H = computeHomography(srcPts, dstPts);
-    if (!H) throw new Error('Failed to compute homography');
-    var H_inv = invert3x3(H);
-    if (!H_inv) throw new Error('Failed to invert homography');
-
-    var warped = warp(srcData, sw, sh, H_inv, dw, dh);
+    var warped;
+    var skewAngle = 0;
+    if (edges) {
+      // The edge curves already follow the text lines, so there is no deskew pass
+      warped = warpCurved(srcCtx, sw, sh, edges, dw, dh);
+    } else {
+      warped = warpFlat(srcCtx, sw, sh, [tl, tr, br, bl], dw, dh, options && options.deskew);
+      skewAngle = warped.skewAngle;
+      warped = warped.data;
+    }
 
-    if (mode === 'bw') enhanceBW(warped, dw, dh);
-    else if (mode === 'gray') enhanceGray(warped, dw, dh);
-    else enhanceColor(warped, dw, dh);
+    applyEnhancement(warped, dw, dh, mode, options);
 
-    // Fill out-of-bounds pixels with white and ensure all alpha=255 for JPEG
+    // Fill out-of-bounds pixels with white and ensure all alpha=255 (JPEG has no alpha)
     for (var fi = 0; fi < dw*dh; fi++) {
       if (warped[fi*4+3] === 0) {
         warped[fi*4] = warped[fi*4+1] = warped[fi*4+2] = 255;
@@ -1174,13 +1941,13 @@ function processImage(base64, corners, mode) {
     imgData.data.set(warped);
     dstCtx.putImageData(imgData, 0, 0);
 
-    var resultB64 = dstCanvas.toDataURL('image/jpeg', 0.92).split(',')[1];
-    return { base64: resultB64, width: dw, height: dh, srcWidth: sw, srcHeight: sh };
+    var resultB64 = encodeCanvas(dstCanvas, encoding);
+    return { base64: resultB64, width: dw, height: dh, srcWidth: sw, srcHeight: sh, skewAngle: skewAngle };
   });
 }
 
-// ── Preview filters (generate 3 thumbnails) ──
-function previewFilters(base64, corners) {
+// ── Preview filters (one thumbnail per enhancement mode) ──
+function previewFilters(base64, corners, options, curves) {
   return decodeBase64Image(base64).then(function(bmp) {
     var ow = bmp.width, oh = bmp.height;
     // Scale to ~500px long side for fast processing
@@ -1196,38 +1963,33 @@ function previewFilters(base64, corners) {
     var srcCtx = srcCanvas.getContext('2d');
     srcCtx.drawImage(bmp, 0, 0, sw, sh);
     bmp.close();
-    var srcData = srcCtx.getImageData(0, 0, sw, sh).data;
 
     var tl = [corners.tl.x * sw, corners.tl.y * sh];
     var tr = [corners.tr.x * sw, corners.tr.y * sh];
     var br = [corners.br.x * sw, corners.br.y * sh];
     var bl = [corners.bl.x * sw, corners.bl.y * sh];
 
-    var dw = Math.round(Math.max(dist(tl, tr), dist(bl, br)));
+    var edges = curves ? curvedEdges(corners, curves, sw, sh) : null;
+    var dw = edges
+      ? Math.round(Math.max(edgeLength(edges.top), edgeLength(edges.bottom)))
+      : Math.round(Math.max(dist(tl, tr), dist(bl, br)));
     var dh = Math.round(Math.max(dist(tl, bl), dist(tr, br)));
     dw = Math.max(dw, 50);
     dh = Math.max(dh, 50);
 
-    var srcPts = [tl, tr, br, bl];
-    var dstPts = [[0, 0], [dw, 0], [dw, dh], [0, dh]];
-    var H = computeHomography(srcPts, dstPts);
-    if (!H) throw new Error('Failed to compute homography');
-    var H_inv = invert3x3(H);
-    if (!H_inv) throw new Error('Failed to invert homography');
-
-    var warped = warp(srcData, sw, sh, H_inv, dw, dh);
+    var warped = edges
+      ? warpCurved(srcCtx, sw, sh, edges, dw, dh)
+      : warpFlat(srcCtx, sw, sh, [tl, tr, br, bl], dw, dh, false).data;
 
     var dstCanvas = document.getElementById('dst');
     dstCanvas.width = dw; dstCanvas.height = dh;
     var dstCtx = dstCanvas.getContext('2d');
 
-    var modes = ['bw', 'gray', 'color'];
+    var modes = ['bw', 'gray', 'color', 'magic', 'whiteboard', 'photo'];
     var results = {};
     for (var mi = 0; mi < modes.length; mi++) {
       var copy = new Uint8ClampedArray(warped);
-      if (modes[mi] === 'bw') enhanceBW(copy, dw, dh);
-      else if (modes[mi] === 'gray') enhanceGray(copy, dw, dh);
-      else enhanceColor(copy, dw, dh);
+      applyEnhancement(copy, dw, dh, modes[mi], options);
       var imgData = dstCtx.createImageData(dw, dh);
       imgData.data.set(copy);
       dstCtx.putImageData(imgData, 0, 0);
@@ -1237,6 +1999,73 @@ function previewFilters(base64, corners) {
   });
 }
 
+// ── Receipt stitching ──
+// Consecutive captures of a long receipt overlap. The overlap is found on
+// narrow grayscale copies and the lower image is joined halfway through it.
+var STITCH_WIDTH = 120;
+// Overlap search range, as shares of the lower image height
+var STITCH_MIN_OVERLAP = 0.05;
+var STITCH_MAX_OVERLAP = 0.8;
+// Mean gray difference above which the best match is not trusted and the images are just stacked
+var STITCH_MAX_DIFF = 28;
+
+function grayThumbnail(bmp, w, h) {
+  var canvas = document.getElementById('dst');
+  canvas.width = w; canvas.height = h;
+  var ctx = canvas.getContext('2d');
+  ctx.drawImage(bmp, 0, 0, w, h);
+  return toGray(ctx.getImageData(0, 0, w, h).data, w, h);
+}
+
+// Rows of the upper thumbnail covered by the lower one; 0 when no overlap matches
+function findOverlap(upper, uh, lower, lh, w) {
+  var minRows = Math.max(4, Math.round(lh * STITCH_MIN_OVERLAP));
+  var maxRows = Math.min(uh, Math.round(lh * STITCH_MAX_OVERLAP));
+  var best = 0, bestDiff = Infinity;
+  for (var rows = minRows; rows <= maxRows; rows++) {
+    var start = (uh - rows) * w;
+    var sum = 0, n = rows * w;
+    for (var i = 0; i < n && sum < bestDiff * n; i++) sum += Math.abs(upper[start + i] - lower[i]);
+    var diff = sum / n;
+    if (diff < bestDiff) { bestDiff = diff; best = rows; }
+  }
+  return bestDiff <= STITCH_MAX_DIFF ? best : 0;
+}
+
+function stitchImages(upperB64, lowerB64, encoding) {
+  return Promise.all([decodeBase64Image(upperB64, 0), decodeBase64Image(lowerB64, 0)]).then(function(bmps) {
+    var upper = bmps[0], lower = bmps[1];
+    // The lower image is scaled to the upper one's width
+    var lowerH = lower.height * upper.width / lower.width;
+    var thumbScale = STITCH_WIDTH / upper.width;
+    var uh = Math.max(1, Math.round(upper.height * thumbScale));
+    var lh = Math.max(1, Math.round(lowerH * thumbScale));
+    var rows = findOverlap(
+      grayThumbnail(upper, STITCH_WIDTH, uh), uh,
+      grayThumbnail(lower, STITCH_WIDTH, lh), lh,
+      STITCH_WIDTH
+    );
+    var overlap = rows / thumbScale;
+
+    var fullW = upper.width, fullH = upper.height + lowerH - overlap;
+    var scale = Math.min(1, Math.sqrt(MAX_CANVAS_PIXELS / (fullW * fullH)));
+    var dw = Math.round(fullW * scale), dh = Math.round(fullH * scale);
+    var seam = upper.height - overlap / 2;
+    var canvas = document.getElementById('dst');
+    canvas.width = dw; canvas.height = dh;
+    var ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, dw, dh);
+    ctx.drawImage(upper, 0, 0, upper.width, upper.height, 0, 0, dw, upper.height * scale);
+    var cut = (overlap / 2) * lower.width / upper.width;
+    ctx.drawImage(lower, 0, cut, lower.width, lower.height - cut, 0, seam * scale, dw, (lowerH - overlap / 2) * scale);
+    var sw = upper.width, sh = upper.height;
+    upper.close();
+    lower.close();
+    return { base64: encodeCanvas(canvas, encoding), width: dw, height: dh, srcWidth: sw, srcHeight: sh };
+  });
+}
+
 // ── Input chunk assembly (called via injectJavaScript) ──
 var processChunks = [];
 var processChunkTotal = 0;
@@ -1247,34 +2076,41 @@ function receiveProcessChunk(index, total, data) {
   processChunks[index] = data;
 }
 
-function startProcess(corners, mode) {
+function takeProcessChunks() {
   var b64 = processChunks.join('');
   processChunks = [];
   processChunkTotal = 0;
+  return b64;
+}
 
-  function sendResult(result) {
-    var rb64 = result.base64;
-    var CHUNK = 512000;
-    if (rb64.length > CHUNK) {
-      var total = Math.ceil(rb64.length / CHUNK);
-      for (var ri = 0; ri < total; ri++) {
-        window.ReactNativeWebView.postMessage(JSON.stringify({
-          type: 'resultChunk', index: ri, total: total,
-          data: rb64.substr(ri * CHUNK, CHUNK),
-          width: result.width, height: result.height,
-          srcWidth: result.srcWidth, srcHeight: result.srcHeight
-        }));
-      }
-    } else {
+// Results go back in chunks when large, reassembled by the RN side
+function sendResult(result) {
+  var rb64 = result.base64;
+  var CHUNK = 512000;
+  if (rb64.length > CHUNK) {
+    var total = Math.ceil(rb64.length / CHUNK);
+    for (var ri = 0; ri < total; ri++) {
       window.ReactNativeWebView.postMessage(JSON.stringify({
-        type: 'result', base64: rb64,
+        type: 'resultChunk', index: ri, total: total,
+        data: rb64.substr(ri * CHUNK, CHUNK),
         width: result.width, height: result.height,
-        srcWidth: result.srcWidth, srcHeight: result.srcHeight
+        srcWidth: result.srcWidth, srcHeight: result.srcHeight,
+        skewAngle: result.skewAngle
       }));
     }
+  } else {
+    window.ReactNativeWebView.postMessage(JSON.stringify({
+      type: 'result', base64: rb64,
+      width: result.width, height: result.height,
+      srcWidth: result.srcWidth, srcHeight: result.srcHeight,
+      skewAngle: result.skewAngle
+    }));
   }
+}
 
-  processImage(b64, corners, mode)
+function startProcess(corners, mode, options, curves, encoding, aspectRatio) {
+  var b64 = takeProcessChunks();
+  processImage(b64, corners, mode, options, curves, encoding, aspectRatio)
     .then(sendResult)
     .catch(function(err) {
       window.ReactNativeWebView.postMessage(JSON.stringify({
@@ -1284,12 +2120,33 @@ function startProcess(corners, mode) {
     });
 }
 
+// Stitching needs two images; the upper one is set aside once its chunks are in
+var stitchUpper = null;
+
+function holdStitchUpper() {
+  stitchUpper = takeProcessChunks();
+}
+
+function startStitch(encoding) {
+  var lower = takeProcessChunks();
+  var upper = stitchUpper;
+  stitchUpper = null;
+  stitchImages(upper, lower, encoding)
+    .then(sendResult)
+    .catch(function(err) {
+      window.ReactNativeWebView.postMessage(JSON.stringify({
+        type: 'error', context: 'stitch',
+        message: err.message || 'Stitching failed'
+      }));
+    });
+}
+
 // ── Message handler ──
 window.addEventListener('message', function(e) {
   try {
     var msg = JSON.parse(e.data);
     if (msg.type === 'process') {
-      processImage(msg.base64, msg.corners, msg.mode)
+      processImage(msg.base64, msg.corners, msg.mode, msg.options, msg.curves, msg.encoding, msg.aspectRatio)
         .then(function(result) {
           var b64 = result.base64;
           var CHUNK = 512000;
@@ -1304,7 +2161,8 @@ window.addEventListener('message', function(e) {
                 width: result.width,
                 height: result.height,
                 srcWidth: result.srcWidth,
-                srcHeight: result.srcHeight
+                srcHeight: result.srcHeight,
+                skewAngle: result.skewAngle
               }));
             }
           } else {
@@ -1314,7 +2172,8 @@ window.addEventListener('message', function(e) {
               width: result.width,
               height: result.height,
               srcWidth: result.srcWidth,
-              srcHeight: result.srcHeight
+              srcHeight: result.srcHeight,
+              skewAngle: result.skewAngle
             }));
           }
         })
@@ -1326,7 +2185,7 @@ window.addEventListener('message', function(e) {
           }));
         });
     } else if (msg.type === 'detect') {
-      detectDocument(msg.base64)
+      detectDocument(msg.base64, msg.receipt)
         .then(function(corners) {
           window.ReactNativeWebView.postMessage(JSON.stringify({
             type: 'corners',
@@ -1339,14 +2198,67 @@ window.addEventListener('message', function(e) {
             corners: null
           }));
         });
+    } else if (msg.type === 'deskew') {
+      deskewCorners(msg.base64, msg.corners)
+        .then(function(skew) {
+          window.ReactNativeWebView.postMessage(JSON.stringify({
+            type: 'skew',
+            id: msg.id,
+            angle: skew.angle,
+            corners: skew.corners
+          }));
+        })
+        .catch(function() {
+          window.ReactNativeWebView.postMessage(JSON.stringify({
+            type: 'skew',
+            id: msg.id,
+            angle: 0,
+            corners: msg.corners
+          }));
+        });
+    } else if (msg.type === 'detectOrientation') {
+      detectOrientation(msg.base64)
+        .then(function(rotation) {
+          window.ReactNativeWebView.postMessage(JSON.stringify({
+            type: 'orientation',
+            id: msg.id,
+            rotation: rotation
+          }));
+        })
+        .catch(function() {
+          window.ReactNativeWebView.postMessage(JSON.stringify({
+            type: 'orientation',
+            id: msg.id,
+            rotation: 0
+          }));
+        });
+    } else if (msg.type === 'detectGutter') {
+      detectGutter(msg.base64, msg.corners)
+        .then(function(gutter) {
+          window.ReactNativeWebView.postMessage(JSON.stringify({
+            type: 'gutter',
+            id: msg.id,
+            gutter: gutter
+          }));
+        })
+        .catch(function() {
+          window.ReactNativeWebView.postMessage(JSON.stringify({
+            type: 'gutter',
+            id: msg.id,
+            gutter: { top: 0.5, bottom: 0.5 }
+          }));
+        });
     } else if (msg.type === 'previewFilters') {
-      previewFilters(msg.base64, msg.corners)
+      previewFilters(msg.base64, msg.corners, msg.options, msg.curves)
         .then(function(previews) {
           window.ReactNativeWebView.postMessage(JSON.stringify({
             type: 'filterPreviews',
             bw: previews.bw,
             gray: previews.gray,
-            color: previews.color
+            color: previews.color,
+            magic: previews.magic,
+            whiteboard: previews.whiteboard,
+            photo: previews.photo
           }));
         })
         .catch(function(err) {
@@ -0,0 +1,37 @@
+import type { ScannerCorner, ScannerCorners, SpreadGutter } from '@/types';
+
+/** Gutter fractions are kept away from the corners so neither page collapses */
+export const MIN_GUTTER = 0.1;
+export const MAX_GUTTER = 0.9;
+
+export const CENTER_GUTTER: SpreadGutter = { top: 0.5, bottom: 0.5 };
+
+function lerp(a: ScannerCorner, b: ScannerCorner, t: number): ScannerCorner {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+/** End points of the gutter line on the top and bottom crop edges. */
+export function gutterPoints(corners: ScannerCorners, gutter: SpreadGutter): { top: ScannerCorner; bottom: ScannerCorner } {
+  return {
+    top: lerp(corners.tl, corners.tr, gutter.top),
+    bottom: lerp(corners.bl, corners.br, gutter.bottom),
+  };
+}
+
+/** Position (0-1) of `point` projected onto the edge from `a` to `b`, clamped to the allowed gutter range. */
+export function gutterFraction(a: ScannerCorner, b: ScannerCorner, point: ScannerCorner): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? ((point.x - a.x) * dx + (point.y - a.y) * dy) / len2 : 0.5;
+  return Math.max(MIN_GUTTER, Math.min(MAX_GUTTER, t));
+}
+
+/** Crops of the left and right page of a spread, each processed as its own page. */
+export function splitSpread(corners: ScannerCorners, gutter: SpreadGutter): [ScannerCorners, ScannerCorners] {
+  const { top, bottom } = gutterPoints(corners, gutter);
+  return [
+    { tl: corners.tl, tr: top, br: bottom, bl: corners.bl },
+    { tl: top, tr: corners.tr, br: corners.br, bl: bottom },
+  ];
+}